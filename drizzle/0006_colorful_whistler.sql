@@ -0,0 +1,2 @@
+ALTER TABLE "accounts" ADD COLUMN "created_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_provider_account_unique" UNIQUE("provider","provider_account_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "event_participants" ADD COLUMN "status" varchar(20) DEFAULT 'going' NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_participants" ADD COLUMN "responded_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "event_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organizer_id" uuid NOT NULL,
+	"title" varchar(100),
+	"description" text,
+	"location" varchar(255),
+	"interests" text[],
+	"capacity" integer,
+	"frequency" varchar(10) NOT NULL,
+	"interval" integer DEFAULT 1 NOT NULL,
+	"by_weekday" integer[],
+	"starts_at" timestamp NOT NULL,
+	"until" timestamp,
+	"count" integer,
+	"exceptions" timestamp[],
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "occurrence_date" timestamp;--> statement-breakpoint
+ALTER TABLE "event_series" ADD CONSTRAINT "event_series_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_series_id_event_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."event_series"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
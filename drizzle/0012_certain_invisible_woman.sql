@@ -0,0 +1,5 @@
+ALTER TABLE "event_series" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "event_series" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+CREATE INDEX "events_coordinates_idx" ON "events" USING btree ("latitude","longitude");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "venues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"address" varchar(255) NOT NULL,
+	"latitude" double precision,
+	"longitude" double precision,
+	"capacity" integer,
+	"accessibility" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "event_series" ADD COLUMN "venue_id" uuid;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "venue_id" uuid;--> statement-breakpoint
+ALTER TABLE "venues" ADD CONSTRAINT "venues_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_series" ADD CONSTRAINT "event_series_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
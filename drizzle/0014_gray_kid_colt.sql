@@ -0,0 +1,5 @@
+ALTER TABLE "events" ALTER COLUMN "date" SET DATA TYPE timestamp with time zone USING "date" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "event_series" ADD COLUMN "duration_minutes" integer;--> statement-breakpoint
+ALTER TABLE "event_series" ADD COLUMN "time_zone" varchar(64) DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "end_date" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "time_zone" varchar(64) DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "event_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"format" varchar(10) NOT NULL,
+	"dry_run" boolean DEFAULT false NOT NULL,
+	"total_rows" integer NOT NULL,
+	"created_count" integer NOT NULL,
+	"skipped_count" integer NOT NULL,
+	"failed_count" integer NOT NULL,
+	"rows" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "event_imports" ADD CONSTRAINT "event_imports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "events" ADD COLUMN "status" varchar(20) DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "publish_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+CREATE INDEX "events_status_idx" ON "events" USING btree ("status");
\ No newline at end of file
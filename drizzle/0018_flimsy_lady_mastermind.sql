@@ -0,0 +1,36 @@
+CREATE TABLE "ticket_types" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"price_cents" integer NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"quantity" integer NOT NULL,
+	"quantity_sold" integer DEFAULT 0 NOT NULL,
+	"sales_start_at" timestamp with time zone,
+	"sales_end_at" timestamp with time zone,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "ticket_orders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"event_id" uuid NOT NULL,
+	"ticket_type_id" uuid NOT NULL,
+	"amount_cents" integer NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"payment_provider" varchar(50),
+	"payment_id" varchar(255),
+	"failure_reason" varchar(255),
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp,
+	"refunded_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ticket_types" ADD CONSTRAINT "ticket_types_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_orders" ADD CONSTRAINT "ticket_orders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_orders" ADD CONSTRAINT "ticket_orders_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_orders" ADD CONSTRAINT "ticket_orders_ticket_type_id_ticket_types_id_fk" FOREIGN KEY ("ticket_type_id") REFERENCES "public"."ticket_types"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ticket_orders_event_id_idx" ON "ticket_orders" USING btree ("event_id");--> statement-breakpoint
+CREATE INDEX "ticket_orders_user_id_idx" ON "ticket_orders" USING btree ("user_id");
\ No newline at end of file
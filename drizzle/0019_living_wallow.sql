@@ -0,0 +1 @@
+ALTER TABLE "event_participants" ADD COLUMN "checked_in_at" timestamp;
\ No newline at end of file
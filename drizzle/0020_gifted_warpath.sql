@@ -0,0 +1,14 @@
+CREATE TABLE "event_roles" (
+	"event_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"invited_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"accepted_at" timestamp,
+	CONSTRAINT "event_roles_event_id_user_id_pk" PRIMARY KEY("event_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "event_roles" ADD CONSTRAINT "event_roles_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_roles" ADD CONSTRAINT "event_roles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_roles" ADD CONSTRAINT "event_roles_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
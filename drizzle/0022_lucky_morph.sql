@@ -0,0 +1,26 @@
+CREATE TABLE "event_comment_edits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" uuid NOT NULL,
+	"body" text NOT NULL,
+	"edited_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "event_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"user_id" uuid,
+	"parent_id" uuid,
+	"body" text NOT NULL,
+	"edited_at" timestamp,
+	"deleted_at" timestamp,
+	"pinned_at" timestamp,
+	"pinned_by" uuid,
+	"created_at" timestamp (3) DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_comment_edits" ADD CONSTRAINT "event_comment_edits_comment_id_event_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."event_comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_parent_id_event_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."event_comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_comments" ADD CONSTRAINT "event_comments_pinned_by_users_id_fk" FOREIGN KEY ("pinned_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_comments_thread_idx" ON "event_comments" USING btree ("event_id","parent_id","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "api_keys" DROP CONSTRAINT "api_keys_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ticket_orders" ADD COLUMN "expires_at" timestamp;
\ No newline at end of file
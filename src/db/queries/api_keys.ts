@@ -0,0 +1,87 @@
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { apiKeys } from "../schema";
+
+// Columns safe to return to the key owner
+const publicColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  prefix: apiKeys.prefix,
+  scopes: apiKeys.scopes,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+// Create API key
+export const createApiKey = async (keyData: {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+}) => {
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values(keyData)
+    .returning(publicColumns);
+
+  return apiKey;
+};
+
+// Get user's API keys
+export const getUserApiKeys = async (userId: string) => {
+  const userApiKeys = await db
+    .select(publicColumns)
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return userApiKeys;
+};
+
+// Get active API key by hash
+export const getActiveApiKeyByHash = async (keyHash: string) => {
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)));
+
+  return apiKey;
+};
+
+// Record API key usage
+export const touchApiKey = async (apiKeyId: string) => {
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKeys.id, apiKeyId));
+};
+
+// Revoke user's API key
+export const revokeApiKey = async (userId: string, apiKeyId: string) => {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(apiKeys.id, apiKeyId),
+        eq(apiKeys.userId, userId),
+        isNull(apiKeys.revokedAt)
+      )
+    )
+    .returning(publicColumns);
+
+  return apiKey;
+};
+
+// Revoke every active API key belonging to a user
+export const revokeUserApiKeys = async (userId: string) => {
+  const revokedApiKeys = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .returning(publicColumns);
+
+  return revokedApiKeys;
+};
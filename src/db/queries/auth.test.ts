@@ -0,0 +1,243 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { eq, sql } from "drizzle-orm";
+import { accounts, authTokens, credentials, users } from "../schema";
+
+// In-process Postgres with the real migrations, standing in for the pool
+const client = new PGlite();
+const testDb = drizzle(client, { casing: "snake_case" });
+
+mock.module("../db", () => ({ db: testDb, pool: client }));
+
+// Loaded once the mock is in place
+let auth: typeof import("./auth");
+
+// Same provider account ID under two providers, e.g. a numeric ID that
+// both happen to use
+const SHARED_ACCOUNT_ID = "1234567890";
+
+let googleUserId: string;
+let appleUserId: string;
+
+beforeAll(async () => {
+  await migrate(testDb, { migrationsFolder: "drizzle" });
+  auth = await import("./auth");
+});
+
+beforeEach(async () => {
+  await testDb.execute(sql`truncate table ${users} cascade`);
+
+  const [googleUser, appleUser] = await testDb
+    .insert(users)
+    .values([
+      { name: "Google User", email: "google@example.com" },
+      { name: "Apple User", email: "apple@example.com" },
+    ])
+    .returning();
+  googleUserId = googleUser.id;
+  appleUserId = appleUser.id;
+
+  await testDb.insert(accounts).values([
+    {
+      userId: googleUserId,
+      provider: "google",
+      providerAccountId: SHARED_ACCOUNT_ID,
+    },
+    {
+      userId: appleUserId,
+      provider: "apple",
+      providerAccountId: SHARED_ACCOUNT_ID,
+    },
+  ]);
+});
+
+describe("getUserByProviderAccountId", () => {
+  test("returns only the matching provider's row", async () => {
+    const google = await auth.getUserByProviderAccountId(
+      "google",
+      SHARED_ACCOUNT_ID
+    );
+    const apple = await auth.getUserByProviderAccountId(
+      "apple",
+      SHARED_ACCOUNT_ID
+    );
+
+    expect(google?.user.id).toBe(googleUserId);
+    expect(google?.account.provider).toBe("google");
+    expect(apple?.user.id).toBe(appleUserId);
+    expect(apple?.account.provider).toBe("apple");
+  });
+
+  test("returns nothing for a provider without that account", async () => {
+    const result = await auth.getUserByProviderAccountId(
+      "github",
+      SHARED_ACCOUNT_ID
+    );
+
+    expect(result).toBeUndefined();
+  });
+});
+
+describe("getUserAccount", () => {
+  test("returns only the matching provider's row", async () => {
+    const google = await auth.getUserAccount(googleUserId, "google");
+    const apple = await auth.getUserAccount(appleUserId, "apple");
+
+    expect(google?.userId).toBe(googleUserId);
+    expect(google?.provider).toBe("google");
+    expect(apple?.userId).toBe(appleUserId);
+    expect(apple?.provider).toBe("apple");
+  });
+
+  test("does not return another user's account for the provider", async () => {
+    expect(await auth.getUserAccount(googleUserId, "apple")).toBeUndefined();
+    expect(await auth.getUserAccount(appleUserId, "google")).toBeUndefined();
+  });
+});
+
+describe("unlinkUserAccount", () => {
+  test("refuses to remove the last way to sign in", async () => {
+    const account = await auth.getUserAccount(googleUserId, "google");
+
+    const result = await auth.unlinkUserAccount(googleUserId, account!.id);
+
+    expect(result.status).toBe("last_method");
+    expect(await auth.getUserAccounts(googleUserId)).toHaveLength(1);
+  });
+
+  test("unlinks the account once the user has a password", async () => {
+    const account = await auth.getUserAccount(googleUserId, "google");
+    await auth.setUserPassword(googleUserId, "hash");
+
+    const result = await auth.unlinkUserAccount(googleUserId, account!.id);
+
+    expect(result.status).toBe("unlinked");
+    expect(await auth.getUserAccounts(googleUserId)).toHaveLength(0);
+  });
+
+  test("does not unlink another user's account", async () => {
+    const account = await auth.getUserAccount(appleUserId, "apple");
+    await auth.setUserPassword(googleUserId, "hash");
+
+    const result = await auth.unlinkUserAccount(googleUserId, account!.id);
+
+    expect(result.status).toBe("not_found");
+    expect(await auth.getUserAccounts(appleUserId)).toHaveLength(1);
+  });
+});
+
+describe("setUserPassword", () => {
+  test("replaces the existing password instead of adding another", async () => {
+    await auth.setUserPassword(googleUserId, "old-hash");
+    await auth.setUserPassword(googleUserId, "new-hash");
+
+    const rows = await testDb
+      .select()
+      .from(credentials)
+      .where(eq(credentials.userId, googleUserId));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].passwordHash).toBe("new-hash");
+  });
+});
+
+describe("consumeAuthToken", () => {
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  test("returns the token only once", async () => {
+    await auth.createAuthToken({
+      userId: googleUserId,
+      purpose: "password_reset",
+      tokenHash: "reset-hash",
+      expiresAt: inOneHour(),
+    });
+
+    const first = await auth.consumeAuthToken("reset-hash", "password_reset");
+    const second = await auth.consumeAuthToken("reset-hash", "password_reset");
+
+    expect(first?.userId).toBe(googleUserId);
+    expect(second).toBeUndefined();
+  });
+
+  test("does not return an expired token", async () => {
+    await auth.createAuthToken({
+      userId: googleUserId,
+      purpose: "password_reset",
+      tokenHash: "expired-hash",
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    expect(
+      await auth.consumeAuthToken("expired-hash", "password_reset")
+    ).toBeUndefined();
+  });
+
+  test("does not return a token issued for another purpose", async () => {
+    await auth.createAuthToken({
+      userId: googleUserId,
+      purpose: "email_verification",
+      tokenHash: "verify-hash",
+      expiresAt: inOneHour(),
+    });
+
+    expect(
+      await auth.consumeAuthToken("verify-hash", "password_reset")
+    ).toBeUndefined();
+    expect(
+      await auth.consumeAuthToken("verify-hash", "email_verification")
+    ).toBeDefined();
+  });
+});
+
+describe("invalidateAuthTokens", () => {
+  test("uses up the user's outstanding tokens for the purpose only", async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    await testDb.insert(authTokens).values([
+      {
+        userId: googleUserId,
+        purpose: "password_reset",
+        tokenHash: "reset-1",
+        expiresAt,
+      },
+      {
+        userId: googleUserId,
+        purpose: "password_reset",
+        tokenHash: "reset-2",
+        expiresAt,
+      },
+      {
+        userId: googleUserId,
+        purpose: "email_verification",
+        tokenHash: "verify",
+        expiresAt,
+      },
+      {
+        userId: appleUserId,
+        purpose: "password_reset",
+        tokenHash: "other-user",
+        expiresAt,
+      },
+    ]);
+
+    const invalidated = await auth.invalidateAuthTokens(
+      googleUserId,
+      "password_reset"
+    );
+
+    expect(invalidated).toHaveLength(2);
+    expect(
+      await auth.consumeAuthToken("reset-1", "password_reset")
+    ).toBeUndefined();
+    expect(
+      await auth.consumeAuthToken("reset-2", "password_reset")
+    ).toBeUndefined();
+    expect(
+      await auth.consumeAuthToken("verify", "email_verification")
+    ).toBeDefined();
+    expect(
+      await auth.consumeAuthToken("other-user", "password_reset")
+    ).toBeDefined();
+  });
+});
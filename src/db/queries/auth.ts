@@ -1,13 +1,13 @@
-import { eq } from "drizzle-orm";
+import { eq, and, asc, gt, isNull } from "drizzle-orm";
 import { db } from "../db";
-import { users, accounts } from "../schema";
+import { users, accounts, credentials, authTokens } from "../schema";
 
 // Get user account by provider
 export const getUserAccount = async (userId: string, provider: string) => {
   const [account] = await db
     .select()
     .from(accounts)
-    .where(eq(accounts.userId, userId) && eq(accounts.provider, provider));
+    .where(and(eq(accounts.userId, userId), eq(accounts.provider, provider)));
 
   return account;
 };
@@ -49,7 +49,177 @@ export const getUserByProviderAccountId = async (provider: string, providerAccou
     })
     .from(accounts)
     .innerJoin(users, eq(accounts.userId, users.id))
-    .where(eq(accounts.provider, provider) && eq(accounts.providerAccountId, providerAccountId));
+    .where(
+      and(
+        eq(accounts.provider, provider),
+        eq(accounts.providerAccountId, providerAccountId)
+      )
+    );
 
   return user;
-}; 
\ No newline at end of file
+};
+
+// Get stored password credentials for user
+export const getUserCredentials = async (userId: string) => {
+  const [credential] = await db
+    .select()
+    .from(credentials)
+    .where(eq(credentials.userId, userId));
+
+  return credential;
+};
+
+// Create or replace user's password hash
+export const setUserPassword = async (userId: string, passwordHash: string) => {
+  const [credential] = await db
+    .insert(credentials)
+    .values({ userId, passwordHash })
+    .onConflictDoUpdate({
+      target: credentials.userId,
+      set: { passwordHash, updatedAt: new Date() },
+    })
+    .returning();
+
+  return credential;
+};
+
+// Create user together with password credentials
+export const createUserWithPassword = async (
+  userData: {
+    name: string;
+    email: string;
+    username?: string;
+    bio?: string;
+  },
+  passwordHash: string
+) => {
+  return db.transaction(async (tx) => {
+    const [user] = await tx.insert(users).values(userData).returning();
+
+    await tx.insert(credentials).values({ userId: user.id, passwordHash });
+
+    return user;
+  });
+};
+
+// Get all provider accounts linked to user
+export const getUserAccounts = async (userId: string) => {
+  const userAccounts = await db
+    .select()
+    .from(accounts)
+    .where(eq(accounts.userId, userId))
+    .orderBy(asc(accounts.createdAt));
+
+  return userAccounts;
+};
+
+// Unlink provider account unless it is the user's last way to sign in
+export const unlinkUserAccount = async (userId: string, accountId: string) => {
+  return db.transaction(async (tx) => {
+    // Lock the user row so concurrent unlinks are counted one at a time
+    await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+
+    const userAccounts = await tx
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId));
+
+    const account = userAccounts.find((a) => a.id === accountId);
+    if (!account) return { status: "not_found" as const };
+
+    const [credential] = await tx
+      .select({ userId: credentials.userId })
+      .from(credentials)
+      .where(eq(credentials.userId, userId));
+
+    const loginMethods = userAccounts.length + (credential ? 1 : 0);
+    if (loginMethods <= 1) return { status: "last_method" as const };
+
+    await tx.delete(accounts).where(eq(accounts.id, accountId));
+
+    return { status: "unlinked" as const, account };
+  });
+};
+
+// Remove user's password credentials
+export const deleteUserCredentials = async (userId: string) => {
+  const [credential] = await db
+    .delete(credentials)
+    .where(eq(credentials.userId, userId))
+    .returning();
+
+  return credential;
+};
+
+// Create user together with linked provider account
+export const createUserWithAccount = async (
+  userData: {
+    name: string;
+    email: string;
+    image?: string;
+    emailVerifiedAt?: Date;
+  },
+  accountData: {
+    provider: string;
+    providerAccountId: string;
+  }
+) => {
+  return db.transaction(async (tx) => {
+    const [user] = await tx.insert(users).values(userData).returning();
+
+    await tx.insert(accounts).values({ ...accountData, userId: user.id });
+
+    return user;
+  });
+};
+
+// Create single-use email token
+export const createAuthToken = async (tokenData: {
+  userId: string;
+  purpose: string;
+  tokenHash: string;
+  expiresAt: Date;
+}) => {
+  const [token] = await db.insert(authTokens).values(tokenData).returning();
+
+  return token;
+};
+
+// Mark unused, unexpired token as used and return it
+export const consumeAuthToken = async (tokenHash: string, purpose: string) => {
+  const [token] = await db
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  return token;
+};
+
+// Invalidate user's outstanding tokens for a purpose
+export const invalidateAuthTokens = async (userId: string, purpose: string) => {
+  const tokens = await db
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      )
+    )
+    .returning();
+
+  return tokens;
+};
@@ -0,0 +1,48 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { calendarFeeds } from "../schema";
+
+// Create user's calendar feed, replacing the token of an existing one
+export const rotateCalendarFeed = async (userId: string, tokenHash: string) => {
+  const [feed] = await db
+    .insert(calendarFeeds)
+    .values({ userId, tokenHash })
+    .onConflictDoUpdate({
+      target: calendarFeeds.userId,
+      set: { tokenHash, lastFetchedAt: null, createdAt: new Date() },
+    })
+    .returning({
+      userId: calendarFeeds.userId,
+      createdAt: calendarFeeds.createdAt,
+    });
+
+  return feed;
+};
+
+// Get calendar feed by token hash
+export const getCalendarFeedByHash = async (tokenHash: string) => {
+  const [feed] = await db
+    .select()
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.tokenHash, tokenHash));
+
+  return feed;
+};
+
+// Record calendar client fetching the feed
+export const touchCalendarFeed = async (userId: string) => {
+  await db
+    .update(calendarFeeds)
+    .set({ lastFetchedAt: new Date() })
+    .where(eq(calendarFeeds.userId, userId));
+};
+
+// Delete user's calendar feed, invalidating its URL
+export const deleteCalendarFeed = async (userId: string) => {
+  const [feed] = await db
+    .delete(calendarFeeds)
+    .where(eq(calendarFeeds.userId, userId))
+    .returning({ userId: calendarFeeds.userId });
+
+  return feed;
+};
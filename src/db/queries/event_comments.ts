@@ -0,0 +1,207 @@
+import {
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  lt,
+  gt,
+  isNull,
+  isNotNull,
+  exists,
+  sql,
+  count,
+  getTableColumns,
+} from "drizzle-orm";
+import { alias, type SelectedFields } from "drizzle-orm/pg-core";
+import { db } from "../db";
+import { eventComments, eventCommentEdits, users } from "../schema";
+import { encodeCursor, type Cursor } from "../../utils/cursor";
+
+const replies = alias(eventComments, "replies");
+
+// Replies that have not been deleted
+const visibleReplies = <T extends SelectedFields>(fields: T) =>
+  db
+    .select(fields)
+    .from(replies)
+    .where(
+      and(eq(replies.parentId, eventComments.id), isNull(replies.deletedAt))
+    );
+
+// Comment columns with the author and number of replies; deleted comments
+// keep their place in the thread but lose their body
+const commentColumns = {
+  ...getTableColumns(eventComments),
+  body: sql<
+    string | null
+  >`case when ${eventComments.deletedAt} is null then ${eventComments.body} end`,
+  user: users,
+  replyCount: sql<number>`${visibleReplies({ count: count() })}`.mapWith(
+    Number
+  ),
+};
+
+// Hide author of deleted comments along with the body
+const withoutDeletedAuthor = <
+  T extends { deletedAt: Date | null; userId: string | null; user: unknown },
+>(
+  comment: T
+) => (comment.deletedAt ? { ...comment, userId: null, user: null } : comment);
+
+// Create comment or reply
+export const createComment = async (commentData: {
+  eventId: string;
+  userId: string;
+  parentId?: string;
+  body: string;
+}) => {
+  const [comment] = await db
+    .insert(eventComments)
+    .values(commentData)
+    .returning();
+
+  return comment;
+};
+
+// Get comment by ID, including deleted ones
+export const getCommentById = async (commentId: string) => {
+  const [comment] = await db
+    .select()
+    .from(eventComments)
+    .where(eq(eventComments.id, commentId));
+
+  return comment;
+};
+
+// Get page of event's top-level comments, newest first, or of a comment's
+// replies, oldest first. Deleted comments are left out once nothing
+// replies to them.
+export const getEventComments = async (
+  eventId: string,
+  options: { parentId?: string; cursor?: Cursor | null; limit?: number } = {}
+) => {
+  const { parentId, cursor, limit = 10 } = options;
+  const newestFirst = !parentId;
+  const before = newestFirst ? lt : gt;
+  const order = newestFirst ? desc : asc;
+
+  const rows = await db
+    .select(commentColumns)
+    .from(eventComments)
+    .leftJoin(users, eq(eventComments.userId, users.id))
+    .where(
+      and(
+        eq(eventComments.eventId, eventId),
+        parentId
+          ? eq(eventComments.parentId, parentId)
+          : isNull(eventComments.parentId),
+        or(
+          isNull(eventComments.deletedAt),
+          exists(visibleReplies({ id: replies.id }))
+        ),
+        cursor
+          ? or(
+              before(eventComments.createdAt, cursor.createdAt),
+              and(
+                eq(eventComments.createdAt, cursor.createdAt),
+                before(eventComments.id, cursor.id)
+              )
+            )
+          : undefined
+      )
+    )
+    .orderBy(order(eventComments.createdAt), order(eventComments.id))
+    .limit(limit + 1);
+
+  // The extra row only tells whether another page follows
+  const comments = rows.slice(0, limit).map(withoutDeletedAuthor);
+  const last = comments[comments.length - 1];
+
+  return {
+    comments,
+    nextCursor: rows.length > limit && last ? encodeCursor(last) : null,
+  };
+};
+
+// Get event's pinned comments, most recently pinned first
+export const getPinnedComments = async (eventId: string) => {
+  const pinned = await db
+    .select(commentColumns)
+    .from(eventComments)
+    .leftJoin(users, eq(eventComments.userId, users.id))
+    .where(
+      and(eq(eventComments.eventId, eventId), isNotNull(eventComments.pinnedAt))
+    )
+    .orderBy(desc(eventComments.pinnedAt));
+
+  return pinned;
+};
+
+// Edit comment, keeping the previous body in its edit history
+export const editComment = async (commentId: string, body: string) => {
+  return db.transaction(async (tx) => {
+    const [comment] = await tx
+      .select()
+      .from(eventComments)
+      .where(
+        and(eq(eventComments.id, commentId), isNull(eventComments.deletedAt))
+      )
+      .for("update");
+
+    if (!comment) return undefined;
+    if (comment.body === body) return comment;
+
+    await tx
+      .insert(eventCommentEdits)
+      .values({ commentId, body: comment.body });
+
+    const [editedComment] = await tx
+      .update(eventComments)
+      .set({ body, editedAt: new Date() })
+      .where(eq(eventComments.id, commentId))
+      .returning();
+
+    return editedComment;
+  });
+};
+
+// Soft delete comment; deleted comments are unpinned
+export const deleteComment = async (commentId: string) => {
+  const [comment] = await db
+    .update(eventComments)
+    .set({ deletedAt: new Date(), pinnedAt: null, pinnedBy: null })
+    .where(
+      and(eq(eventComments.id, commentId), isNull(eventComments.deletedAt))
+    )
+    .returning();
+
+  return comment;
+};
+
+// Pin comment to the top of the discussion, or unpin it when pinnedBy is null
+export const setCommentPinned = async (
+  commentId: string,
+  pinnedBy: string | null
+) => {
+  const [comment] = await db
+    .update(eventComments)
+    .set({ pinnedAt: pinnedBy ? new Date() : null, pinnedBy })
+    .where(
+      and(eq(eventComments.id, commentId), isNull(eventComments.deletedAt))
+    )
+    .returning();
+
+  return comment;
+};
+
+// Get comment's previous bodies, most recent first
+export const getCommentEdits = async (commentId: string) => {
+  const edits = await db
+    .select()
+    .from(eventCommentEdits)
+    .where(eq(eventCommentEdits.commentId, commentId))
+    .orderBy(desc(eventCommentEdits.editedAt));
+
+  return edits;
+};
@@ -0,0 +1,65 @@
+import { eq, desc } from "drizzle-orm";
+import { db } from "../db";
+import { eventImports, type EventImportRowResult } from "../schema";
+
+// Record finished import with its per-row results
+export const createEventImport = async (importData: {
+  userId: string;
+  format: string;
+  dryRun: boolean;
+  rows: EventImportRowResult[];
+}) => {
+  const countRows = (...statuses: EventImportRowResult["status"][]) =>
+    importData.rows.filter((row) => statuses.includes(row.status)).length;
+
+  const [eventImport] = await db
+    .insert(eventImports)
+    .values({
+      ...importData,
+      totalRows: importData.rows.length,
+      createdCount: countRows("created", "valid"),
+      skippedCount: countRows("skipped"),
+      failedCount: countRows("failed"),
+    })
+    .returning();
+
+  return eventImport;
+};
+
+// Get import by ID
+export const getEventImportById = async (importId: string) => {
+  const [eventImport] = await db
+    .select()
+    .from(eventImports)
+    .where(eq(eventImports.id, importId));
+
+  return eventImport;
+};
+
+// Get user's imports without per-row results, newest first
+export const getUserEventImports = async (
+  userId: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const userImports = await db
+    .select({
+      id: eventImports.id,
+      format: eventImports.format,
+      dryRun: eventImports.dryRun,
+      totalRows: eventImports.totalRows,
+      createdCount: eventImports.createdCount,
+      skippedCount: eventImports.skippedCount,
+      failedCount: eventImports.failedCount,
+      createdAt: eventImports.createdAt,
+    })
+    .from(eventImports)
+    .where(eq(eventImports.userId, userId))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(desc(eventImports.createdAt));
+
+  return userImports;
+};
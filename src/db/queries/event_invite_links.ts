@@ -0,0 +1,127 @@
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { eventInviteLinks, eventParticipants } from "../schema";
+
+// Columns safe to return to hosts; the token itself is never stored
+const publicColumns = {
+  id: eventInviteLinks.id,
+  eventId: eventInviteLinks.eventId,
+  createdBy: eventInviteLinks.createdBy,
+  expiresAt: eventInviteLinks.expiresAt,
+  maxUses: eventInviteLinks.maxUses,
+  uses: eventInviteLinks.uses,
+  revokedAt: eventInviteLinks.revokedAt,
+  createdAt: eventInviteLinks.createdAt,
+};
+
+// Create invite link for event
+export const createInviteLink = async (linkData: {
+  eventId: string;
+  tokenHash: string;
+  createdBy: string;
+  expiresAt: Date;
+  maxUses?: number;
+}) => {
+  const [inviteLink] = await db
+    .insert(eventInviteLinks)
+    .values(linkData)
+    .returning(publicColumns);
+
+  return inviteLink;
+};
+
+// Get event's invite links, newest first
+export const getEventInviteLinks = async (eventId: string) => {
+  const inviteLinks = await db
+    .select(publicColumns)
+    .from(eventInviteLinks)
+    .where(eq(eventInviteLinks.eventId, eventId))
+    .orderBy(desc(eventInviteLinks.createdAt));
+
+  return inviteLinks;
+};
+
+// Get invite link that has not been revoked by hash
+export const getInviteLinkByHash = async (tokenHash: string) => {
+  const [inviteLink] = await db
+    .select(publicColumns)
+    .from(eventInviteLinks)
+    .where(
+      and(
+        eq(eventInviteLinks.tokenHash, tokenHash),
+        isNull(eventInviteLinks.revokedAt)
+      )
+    );
+
+  return inviteLink;
+};
+
+// Revoke event's invite link
+export const revokeInviteLink = async (eventId: string, linkId: string) => {
+  const [inviteLink] = await db
+    .update(eventInviteLinks)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(eventInviteLinks.id, linkId),
+        eq(eventInviteLinks.eventId, eventId),
+        isNull(eventInviteLinks.revokedAt)
+      )
+    )
+    .returning(publicColumns);
+
+  return inviteLink;
+};
+
+// Invite user through link. A use is only counted for users who had no RSVP
+// yet, and the row lock keeps concurrent redemptions within maxUses.
+export const redeemInviteLink = async (tokenHash: string, userId: string) => {
+  return db.transaction(async (tx) => {
+    const [inviteLink] = await tx
+      .select()
+      .from(eventInviteLinks)
+      .where(
+        and(
+          eq(eventInviteLinks.tokenHash, tokenHash),
+          isNull(eventInviteLinks.revokedAt)
+        )
+      )
+      .for("update");
+
+    if (!inviteLink) return { status: "not_found" as const };
+
+    if (inviteLink.expiresAt <= new Date()) {
+      return { status: "expired" as const };
+    }
+
+    const [existing] = await tx
+      .select()
+      .from(eventParticipants)
+      .where(
+        and(
+          eq(eventParticipants.userId, userId),
+          eq(eventParticipants.eventId, inviteLink.eventId)
+        )
+      );
+
+    if (existing) {
+      return { status: "already_invited" as const, participation: existing };
+    }
+
+    if (inviteLink.maxUses !== null && inviteLink.uses >= inviteLink.maxUses) {
+      return { status: "used_up" as const };
+    }
+
+    const [participation] = await tx
+      .insert(eventParticipants)
+      .values({ userId, eventId: inviteLink.eventId, status: "invited" })
+      .returning();
+
+    await tx
+      .update(eventInviteLinks)
+      .set({ uses: inviteLink.uses + 1 })
+      .where(eq(eventInviteLinks.id, inviteLink.id));
+
+    return { status: "invited" as const, participation };
+  });
+};
@@ -0,0 +1,115 @@
+import { eq, and, asc, desc } from "drizzle-orm";
+import { db } from "../db";
+import { events, users, eventRoles } from "../schema";
+import type { EventRole } from "../../types/events";
+
+// Invite user to help host event; returns undefined if they already have a role
+export const inviteEventRole = async (roleData: {
+  eventId: string;
+  userId: string;
+  role: EventRole;
+  invitedBy: string;
+}) => {
+  const [eventRole] = await db
+    .insert(eventRoles)
+    .values(roleData)
+    .onConflictDoNothing()
+    .returning();
+
+  return eventRole;
+};
+
+// Accept pending role invitation
+export const acceptEventRole = async (eventId: string, userId: string) => {
+  const [eventRole] = await db
+    .update(eventRoles)
+    .set({ status: "accepted", acceptedAt: new Date() })
+    .where(
+      and(
+        eq(eventRoles.eventId, eventId),
+        eq(eventRoles.userId, userId),
+        eq(eventRoles.status, "pending")
+      )
+    )
+    .returning();
+
+  return eventRole;
+};
+
+// Change role of an existing host or invitee
+export const updateEventRole = async (
+  eventId: string,
+  userId: string,
+  role: EventRole
+) => {
+  const [eventRole] = await db
+    .update(eventRoles)
+    .set({ role })
+    .where(and(eq(eventRoles.eventId, eventId), eq(eventRoles.userId, userId)))
+    .returning();
+
+  return eventRole;
+};
+
+// Remove role or decline invitation
+export const removeEventRole = async (eventId: string, userId: string) => {
+  const [eventRole] = await db
+    .delete(eventRoles)
+    .where(and(eq(eventRoles.eventId, eventId), eq(eventRoles.userId, userId)))
+    .returning();
+
+  return eventRole;
+};
+
+// Get user's role for event, accepted or not
+export const getEventRole = async (eventId: string, userId: string) => {
+  const [eventRole] = await db
+    .select()
+    .from(eventRoles)
+    .where(and(eq(eventRoles.eventId, eventId), eq(eventRoles.userId, userId)));
+
+  return eventRole;
+};
+
+// Get event's hosts; pending invitations are only included when asked for
+export const getEventHosts = async (
+  eventId: string,
+  includePending: boolean = false
+) => {
+  const hosts = await db
+    .select({
+      user: users,
+      role: eventRoles.role,
+      status: eventRoles.status,
+      createdAt: eventRoles.createdAt,
+      acceptedAt: eventRoles.acceptedAt,
+    })
+    .from(eventRoles)
+    .innerJoin(users, eq(eventRoles.userId, users.id))
+    .where(
+      and(
+        eq(eventRoles.eventId, eventId),
+        includePending ? undefined : eq(eventRoles.status, "accepted")
+      )
+    )
+    .orderBy(asc(eventRoles.role), asc(eventRoles.createdAt));
+
+  return hosts;
+};
+
+// Get user's pending role invitations, newest first
+export const getUserRoleInvitations = async (userId: string) => {
+  const invitations = await db
+    .select({
+      event: { id: events.id, title: events.title, date: events.date },
+      role: eventRoles.role,
+      invitedBy: eventRoles.invitedBy,
+      createdAt: eventRoles.createdAt,
+    })
+    .from(eventRoles)
+    .innerJoin(events, eq(eventRoles.eventId, events.id))
+    .where(and(eq(eventRoles.userId, userId), eq(eventRoles.status, "pending")))
+    .orderBy(desc(eventRoles.createdAt));
+
+  return invitations;
+};
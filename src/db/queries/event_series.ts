@@ -0,0 +1,212 @@
+import { eq, and, or, asc, gte } from "drizzle-orm";
+import { db } from "../db";
+import { events, eventSeries } from "../schema";
+import { eventColumns, isDiscoverable, nextRevision } from "./events";
+import {
+  expandRecurrence,
+  type RecurrenceFrequency,
+} from "../../utils/recurrence";
+
+type SeriesChanges = Partial<{
+  title: string;
+  description: string;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  venueId: string | null;
+  groupId: string | null;
+  interests: string[];
+  capacity: number | null;
+  visibility: string;
+  timeZone: string;
+}>;
+
+// Create series and its occurrences
+export const createEventSeries = async (
+  seriesData: {
+    organizerId: string;
+    title: string;
+    description: string;
+    location?: string;
+    latitude?: number;
+    longitude?: number;
+    venueId?: string;
+    groupId?: string;
+    interests?: string[];
+    capacity?: number;
+    visibility?: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    byWeekday?: number[];
+    startsAt: Date;
+    durationMinutes?: number;
+    timeZone?: string;
+    until?: Date;
+    count?: number;
+    exceptions?: Date[];
+  },
+  occurrenceDates: Date[]
+) => {
+  return db.transaction(async (tx) => {
+    const [series] = await tx
+      .insert(eventSeries)
+      .values(seriesData)
+      .returning();
+
+    const occurrences = await tx
+      .insert(events)
+      .values(
+        occurrenceDates.map((date) => ({
+          title: series.title,
+          description: series.description,
+          location: series.location,
+          latitude: series.latitude,
+          longitude: series.longitude,
+          venueId: series.venueId,
+          groupId: series.groupId,
+          interests: series.interests,
+          capacity: series.capacity,
+          visibility: series.visibility,
+          organizerId: series.organizerId,
+          seriesId: series.id,
+          date,
+          endDate: series.durationMinutes
+            ? new Date(date.getTime() + series.durationMinutes * 60000)
+            : null,
+          timeZone: series.timeZone,
+          occurrenceDate: date,
+        }))
+      )
+      .returning(eventColumns);
+
+    return { series, occurrences };
+  });
+};
+
+// Get series by ID with the occurrences the viewer may see; organizers see
+// all of theirs, including unpublished and unlisted ones
+export const getEventSeriesById = async (
+  seriesId: string,
+  viewerId?: string
+) => {
+  const [series] = await db
+    .select()
+    .from(eventSeries)
+    .where(eq(eventSeries.id, seriesId));
+
+  if (!series) return null;
+
+  const occurrences = await db
+    .select(eventColumns)
+    .from(events)
+    .where(
+      and(
+        eq(events.seriesId, seriesId),
+        viewerId
+          ? or(eq(events.organizerId, viewerId), isDiscoverable(viewerId))
+          : isDiscoverable()
+      )
+    )
+    .orderBy(asc(events.date));
+
+  return { series, occurrences };
+};
+
+// Apply changes to series template and all of its occurrences
+export const updateAllOccurrences = async (
+  seriesId: string,
+  changes: SeriesChanges
+) => {
+  return db.transaction(async (tx) => {
+    const [series] = await tx
+      .update(eventSeries)
+      .set(changes)
+      .where(eq(eventSeries.id, seriesId))
+      .returning();
+
+    const occurrences = await tx
+      .update(events)
+      .set({ ...changes, ...nextRevision() })
+      .where(eq(events.seriesId, seriesId))
+      .returning(eventColumns);
+
+    return { series, occurrences };
+  });
+};
+
+// Split series at occurrence and apply changes to the new tail series
+export const updateFollowingOccurrences = async (
+  seriesId: string,
+  occurrenceDate: Date,
+  changes: SeriesChanges
+) => {
+  return db.transaction(async (tx) => {
+    const [series] = await tx
+      .select()
+      .from(eventSeries)
+      .where(eq(eventSeries.id, seriesId))
+      .for("update");
+
+    if (!series) return null;
+
+    // Splitting at the first occurrence is the same as editing all of them
+    if (occurrenceDate <= series.startsAt) {
+      const [updatedSeries] = await tx
+        .update(eventSeries)
+        .set(changes)
+        .where(eq(eventSeries.id, seriesId))
+        .returning();
+
+      const occurrences = await tx
+        .update(events)
+        .set({ ...changes, ...nextRevision() })
+        .where(eq(events.seriesId, seriesId))
+        .returning(eventColumns);
+
+      return { series: updatedSeries, occurrences };
+    }
+
+    // COUNT includes excluded dates, so count the rule without exceptions
+    const generatedBefore = expandRecurrence({
+      ...series,
+      frequency: series.frequency as RecurrenceFrequency,
+      exceptions: null,
+      until: new Date(occurrenceDate.getTime() - 1),
+    }).length;
+
+    const { id, createdAt, ...template } = series;
+    const [tailSeries] = await tx
+      .insert(eventSeries)
+      .values({
+        ...template,
+        ...changes,
+        startsAt: occurrenceDate,
+        count: series.count ? series.count - generatedBefore : null,
+        exceptions: (series.exceptions || []).filter(
+          (date) => date >= occurrenceDate
+        ),
+      })
+      .returning();
+
+    await tx
+      .update(eventSeries)
+      .set({
+        until: new Date(occurrenceDate.getTime() - 1),
+        count: series.count ? generatedBefore : null,
+      })
+      .where(eq(eventSeries.id, seriesId));
+
+    const occurrences = await tx
+      .update(events)
+      .set({ ...changes, ...nextRevision(), seriesId: tailSeries.id })
+      .where(
+        and(
+          eq(events.seriesId, seriesId),
+          gte(events.occurrenceDate, occurrenceDate)
+        )
+      )
+      .returning(eventColumns);
+
+    return { series: tailSeries, occurrences };
+  });
+};
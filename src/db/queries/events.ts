@@ -1,23 +1,143 @@
-import { eq, desc, asc, like, and, or, gte, lte, count } from "drizzle-orm";
+import {
+  eq,
+  desc,
+  asc,
+  like,
+  and,
+  or,
+  gte,
+  lte,
+  count,
+  inArray,
+  isNull,
+  isNotNull,
+  exists,
+  sql,
+  getTableColumns,
+} from "drizzle-orm";
 import { db } from "../db";
-import { events, users, eventParticipants, eventReviews } from "../schema";
+import {
+  events,
+  users,
+  eventParticipants,
+  eventWaitlist,
+  eventReviews,
+  eventRoles,
+  venues,
+} from "../schema";
+import {
+  RSVP_STATUSES,
+  type RsvpStatus,
+  type EventStatus,
+} from "../../types/events";
+import {
+  EARTH_RADIUS_KM,
+  getBoundingBox,
+  type BoundingBox,
+} from "../../utils/geo";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Format instant as wall-clock time in the event's time zone
+const localTime = <T extends string | null>(
+  column: typeof events.date | typeof events.endDate
+) =>
+  sql<T>`to_char(${column} at time zone ${events.timeZone}, 'YYYY-MM-DD"T"HH24:MI:SS')`;
+
+// Scheduled events count as published once their publication time passed
+const effectiveStatus = sql<EventStatus>`case
+  when ${events.status} = 'scheduled' and ${events.publishAt} <= now()
+  then 'published' else ${events.status} end`;
+
+// Event columns plus start and end as local wall-clock times
+export const eventColumns = {
+  ...getTableColumns(events),
+  status: effectiveStatus,
+  localDate: localTime<string>(events.date),
+  localEndDate: localTime<string | null>(events.endDate),
+};
+
+// Condition matching events shown in listings; drafts and events waiting
+// for their scheduled publication stay hidden, cancelled ones are shown
+export const isListed = () =>
+  or(
+    inArray(events.status, ["published", "cancelled"]),
+    and(eq(events.status, "scheduled"), lte(events.publishAt, new Date()))
+  );
+
+// Condition matching private events the viewer organizes, helps host or
+// has an RSVP for, including an unanswered invitation
+const isInvolved = (viewerId: string) =>
+  or(
+    eq(events.organizerId, viewerId),
+    exists(
+      db
+        .select({ userId: eventParticipants.userId })
+        .from(eventParticipants)
+        .where(
+          and(
+            eq(eventParticipants.eventId, events.id),
+            eq(eventParticipants.userId, viewerId)
+          )
+        )
+    ),
+    exists(
+      db
+        .select({ userId: eventRoles.userId })
+        .from(eventRoles)
+        .where(
+          and(
+            eq(eventRoles.eventId, events.id),
+            eq(eventRoles.userId, viewerId),
+            eq(eventRoles.status, "accepted")
+          )
+        )
+    )
+  );
+
+// Listed events the viewer may come across: public ones, plus private ones
+// they are involved in; unlisted events are only reachable by link
+export const isDiscoverable = (viewerId?: string) =>
+  and(
+    isListed(),
+    viewerId
+      ? or(
+          eq(events.visibility, "public"),
+          and(eq(events.visibility, "private"), isInvolved(viewerId))
+        )
+      : eq(events.visibility, "public")
+  );
+
+// Changed columns marking a new revision of the event for calendar clients
+export const nextRevision = () => ({
+  sequence: sql`${events.sequence} + 1`,
+  updatedAt: new Date(),
+});
 
 // Get all events with pagination
-export const getAllEvents = async (page: number = 1, limit: number = 10) => {
+export const getAllEvents = async (
+  page: number = 1,
+  limit: number = 10,
+  viewerId?: string
+) => {
   const offset = (page - 1) * limit;
 
   const allEvents = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
+    .where(isDiscoverable(viewerId))
     .limit(limit)
     .offset(offset)
     .orderBy(desc(events.date));
 
-  const totalCount = await db.select({ count: events.id }).from(events);
+  const totalCount = await db
+    .select({ count: events.id })
+    .from(events)
+    .where(isDiscoverable(viewerId));
 
   return {
     events: allEvents,
@@ -30,24 +150,42 @@ export const getAllEvents = async (page: number = 1, limit: number = 10) => {
   };
 };
 
-// Get event by ID with organizer and participants
+// Get event by ID with organizer, venue and participants
 export const getEventById = async (eventId: string) => {
   const [event] = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
+      venue: venues,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
+    .leftJoin(venues, eq(events.venueId, venues.id))
     .where(eq(events.id, eventId));
 
   if (!event) return null;
 
+  // Get co-organizers and staff who accepted their role
+  const hosts = await db
+    .select({
+      user: users,
+      role: eventRoles.role,
+      acceptedAt: eventRoles.acceptedAt,
+    })
+    .from(eventRoles)
+    .innerJoin(users, eq(eventRoles.userId, users.id))
+    .where(
+      and(eq(eventRoles.eventId, eventId), eq(eventRoles.status, "accepted"))
+    )
+    .orderBy(asc(eventRoles.role), asc(eventRoles.acceptedAt));
+
   // Get participants
   const participants = await db
     .select({
       user: users,
+      status: eventParticipants.status,
       joinedAt: eventParticipants.joinedAt,
+      respondedAt: eventParticipants.respondedAt,
     })
     .from(eventParticipants)
     .innerJoin(users, eq(eventParticipants.userId, users.id))
@@ -65,9 +203,31 @@ export const getEventById = async (eventId: string) => {
     .where(eq(eventReviews.eventId, eventId))
     .orderBy(desc(eventReviews.createdAt));
 
+  // Count RSVPs per status
+  const statusCounts = await db
+    .select({ status: eventParticipants.status, count: count() })
+    .from(eventParticipants)
+    .where(eq(eventParticipants.eventId, eventId))
+    .groupBy(eventParticipants.status);
+
+  const rsvpCounts = Object.fromEntries(
+    RSVP_STATUSES.map((status) => [
+      status,
+      statusCounts.find((row) => row.status === status)?.count ?? 0,
+    ])
+  ) as Record<RsvpStatus, number>;
+
+  const [waitlist] = await db
+    .select({ count: count() })
+    .from(eventWaitlist)
+    .where(eq(eventWaitlist.eventId, eventId));
+
   return {
     ...event,
+    hosts,
     participants,
+    rsvpCounts,
+    waitlistCount: waitlist.count,
     reviews,
   };
 };
@@ -77,20 +237,24 @@ export const createEvent = async (eventData: {
   title: string;
   description: string;
   date: Date;
-  location: string;
+  endDate?: Date;
+  timeZone?: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  venueId?: string;
   organizerId: string;
+  groupId?: string;
   interests?: string[];
-}): Promise<{
-  id: string;
-  title: string | null;
-  description: string | null;
-  date: Date;
-  location: string | null;
-  organizerId: string | null;
-  interests: string[] | null;
-  createdAt: Date | null;
-}> => {
-  const [event] = await db.insert(events).values(eventData).returning();
+  capacity?: number;
+  status?: EventStatus;
+  publishAt?: Date;
+  visibility?: string;
+}) => {
+  const [event] = await db
+    .insert(events)
+    .values(eventData)
+    .returning(eventColumns);
 
   return event;
 };
@@ -102,27 +266,43 @@ export const updateEvent = async (
     title: string;
     description: string;
     date: Date;
+    endDate: Date | null;
+    timeZone: string;
     location: string;
+    latitude: number | null;
+    longitude: number | null;
+    venueId: string | null;
+    groupId: string | null;
     interests: string[];
+    capacity: number | null;
+    visibility: string;
   }>
-): Promise<
-  | {
-      id: string;
-      title: string | null;
-      description: string | null;
-      date: Date;
-      location: string | null;
-      organizerId: string | null;
-      interests: string[] | null;
-      createdAt: Date | null;
-    }
-  | undefined
-> => {
+) => {
   const [updatedEvent] = await db
     .update(events)
-    .set(updateData)
+    .set({ ...updateData, ...nextRevision() })
     .where(eq(events.id, eventId))
-    .returning();
+    .returning(eventColumns);
+
+  return updatedEvent;
+};
+
+// Move event to another lifecycle status
+export const updateEventStatus = async (
+  eventId: string,
+  status: EventStatus,
+  publishAt: Date | null = null
+) => {
+  const [updatedEvent] = await db
+    .update(events)
+    .set({
+      status,
+      publishAt,
+      cancelledAt: status === "cancelled" ? new Date() : null,
+      ...nextRevision(),
+    })
+    .where(eq(events.id, eventId))
+    .returning(eventColumns);
 
   return updatedEvent;
 };
@@ -132,7 +312,7 @@ export const deleteEvent = async (eventId: string) => {
   const [deletedEvent] = await db
     .delete(events)
     .where(eq(events.id, eventId))
-    .returning();
+    .returning(eventColumns);
 
   return deletedEvent;
 };
@@ -141,22 +321,26 @@ export const deleteEvent = async (eventId: string) => {
 export const searchEvents = async (
   query: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string
 ) => {
   const offset = (page - 1) * limit;
 
   const searchResults = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
     .where(
-      or(
-        like(events.title, `%${query}%`),
-        like(events.description, `%${query}%`),
-        like(events.location, `%${query}%`)
+      and(
+        isDiscoverable(viewerId),
+        or(
+          like(events.title, `%${query}%`),
+          like(events.description, `%${query}%`),
+          like(events.location, `%${query}%`)
+        )
       )
     )
     .limit(limit)
@@ -166,21 +350,27 @@ export const searchEvents = async (
   return searchResults;
 };
 
-// Get upcoming events
+// Get events that have not ended yet
 export const getUpcomingEvents = async (
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string
 ) => {
   const offset = (page - 1) * limit;
 
   const upcomingEvents = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
-    .where(gte(events.date, new Date()))
+    .where(
+      and(
+        isDiscoverable(viewerId),
+        gte(sql`coalesce(${events.endDate}, ${events.date})`, new Date())
+      )
+    )
     .limit(limit)
     .offset(offset)
     .orderBy(asc(events.date));
@@ -192,18 +382,21 @@ export const getUpcomingEvents = async (
 export const getEventsByLocation = async (
   location: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string
 ) => {
   const offset = (page - 1) * limit;
 
   const locationEvents = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
-    .where(like(events.location, `%${location}%`))
+    .where(
+      and(isDiscoverable(viewerId), like(events.location, `%${location}%`))
+    )
     .limit(limit)
     .offset(offset)
     .orderBy(desc(events.date));
@@ -211,22 +404,129 @@ export const getEventsByLocation = async (
   return locationEvents;
 };
 
+// Condition matching events with coordinates inside the box
+const withinBoundingBox = (box: BoundingBox) => {
+  // Boxes crossing the antimeridian wrap around from east to west
+  const longitudeCondition =
+    box.west <= box.east
+      ? and(gte(events.longitude, box.west), lte(events.longitude, box.east))
+      : or(gte(events.longitude, box.west), lte(events.longitude, box.east));
+
+  return and(
+    gte(events.latitude, box.south),
+    lte(events.latitude, box.north),
+    longitudeCondition
+  );
+};
+
+// Get events within radius of a point, nearest first
+export const getNearbyEvents = async (
+  latitude: number,
+  longitude: number,
+  radiusKm: number,
+  page: number = 1,
+  limit: number = 10,
+  viewerId?: string
+) => {
+  const offset = (page - 1) * limit;
+
+  // Haversine great-circle distance in kilometres; least() guards rounding
+  const distanceKm = sql<number>`${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(
+    power(sin(radians(${events.latitude} - ${latitude}) / 2), 2) +
+    cos(radians(${latitude})) * cos(radians(${events.latitude})) *
+    power(sin(radians(${events.longitude} - ${longitude}) / 2), 2)
+  )))`;
+
+  // The bounding box lets the coordinates index narrow the scan first
+  const nearbyEvents = await db
+    .select({
+      event: eventColumns,
+      organizer: users,
+      distanceKm,
+    })
+    .from(events)
+    .innerJoin(users, eq(events.organizerId, users.id))
+    .where(
+      and(
+        isDiscoverable(viewerId),
+        withinBoundingBox(getBoundingBox(latitude, longitude, radiusKm)),
+        lte(distanceKm, radiusKm)
+      )
+    )
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(distanceKm));
+
+  return nearbyEvents;
+};
+
+// Get organizer's events that are not listed yet (drafts and scheduled)
+export const getOrganizerDrafts = async (
+  organizerId: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const drafts = await db
+    .select(eventColumns)
+    .from(events)
+    .where(
+      and(
+        eq(events.organizerId, organizerId),
+        inArray(effectiveStatus, ["draft", "scheduled"])
+      )
+    )
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(events.date));
+
+  return drafts;
+};
+
+// Get events inside a map viewport
+export const getEventsInBounds = async (
+  box: BoundingBox,
+  page: number = 1,
+  limit: number = 10,
+  viewerId?: string
+) => {
+  const offset = (page - 1) * limit;
+
+  const boundsEvents = await db
+    .select({
+      event: eventColumns,
+      organizer: users,
+    })
+    .from(events)
+    .innerJoin(users, eq(events.organizerId, users.id))
+    .where(and(isDiscoverable(viewerId), withinBoundingBox(box)))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(desc(events.date));
+
+  return boundsEvents;
+};
+
 // Get events by interest category
 export const getEventsByInterest = async (
   interest: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string
 ) => {
   const offset = (page - 1) * limit;
 
   const interestEvents = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
-    .where(like(events.interests, `%${interest}%`))
+    .where(
+      and(isDiscoverable(viewerId), like(events.interests, `%${interest}%`))
+    )
     .limit(limit)
     .offset(offset)
     .orderBy(desc(events.date));
@@ -238,7 +538,8 @@ export const getEventsByInterest = async (
 export const searchEventsByInterests = async (
   interests: string[],
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string
 ) => {
   const offset = (page - 1) * limit;
 
@@ -248,12 +549,12 @@ export const searchEventsByInterests = async (
 
   const interestEvents = await db
     .select({
-      event: events,
+      event: eventColumns,
       organizer: users,
     })
     .from(events)
     .innerJoin(users, eq(events.organizerId, users.id))
-    .where(or(...interestConditions))
+    .where(and(isDiscoverable(viewerId), or(...interestConditions)))
     .limit(limit)
     .offset(offset)
     .orderBy(desc(events.date));
@@ -261,65 +562,328 @@ export const searchEventsByInterests = async (
   return interestEvents;
 };
 
-// Join event
-export const joinEvent = async (userId: string, eventId: string) => {
-  const [participation] = await db
+// Lock event row so capacity checks on it run one at a time
+export const lockEvent = async (tx: Transaction, eventId: string) => {
+  const [event] = await tx
+    .select({
+      id: events.id,
+      capacity: events.capacity,
+      status: effectiveStatus,
+    })
+    .from(events)
+    .where(eq(events.id, eventId))
+    .for("update");
+
+  return event;
+};
+
+// Count participants holding a spot at the event
+const countGoing = async (tx: Transaction, eventId: string) => {
+  const [going] = await tx
+    .select({ count: count() })
+    .from(eventParticipants)
+    .where(
+      and(
+        eq(eventParticipants.eventId, eventId),
+        eq(eventParticipants.status, "going")
+      )
+    );
+
+  return going.count;
+};
+
+// Move waitlisted users into free spots, oldest first
+export const fillFromWaitlist = async (
+  tx: Transaction,
+  event: { id: string; capacity: number | null }
+) => {
+  const freeSpots =
+    event.capacity === null
+      ? undefined
+      : Math.max(event.capacity - (await countGoing(tx, event.id)), 0);
+  if (freeSpots === 0) return [];
+
+  const nextQuery = tx
+    .select()
+    .from(eventWaitlist)
+    .where(eq(eventWaitlist.eventId, event.id))
+    .orderBy(asc(eventWaitlist.createdAt));
+  const next =
+    freeSpots === undefined
+      ? await nextQuery
+      : await nextQuery.limit(freeSpots);
+
+  if (next.length === 0) return [];
+
+  await tx.delete(eventWaitlist).where(
+    and(
+      eq(eventWaitlist.eventId, event.id),
+      inArray(
+        eventWaitlist.userId,
+        next.map((entry) => entry.userId)
+      )
+    )
+  );
+
+  // Waitlisted users may already have a maybe or invited RSVP
+  return tx
     .insert(eventParticipants)
-    .values({
-      userId,
-      eventId,
+    .values(
+      next.map((entry) => ({
+        userId: entry.userId,
+        eventId: event.id,
+        status: "going",
+        respondedAt: new Date(),
+      }))
+    )
+    .onConflictDoUpdate({
+      target: [eventParticipants.userId, eventParticipants.eventId],
+      set: { status: "going", respondedAt: new Date() },
     })
     .returning();
+};
+
+// Answer event RSVP; going joins the waitlist when the event is full
+export const updateRsvp = async (
+  userId: string,
+  eventId: string,
+  status: Exclude<RsvpStatus, "invited">
+) => {
+  return db.transaction(async (tx) => {
+    const event = await lockEvent(tx, eventId);
+    if (!event) return { status: "not_found" as const };
+    if (event.status === "cancelled") return { status: "cancelled" as const };
+    if (event.status !== "published") return { status: "not_found" as const };
+
+    const [existing] = await tx
+      .select()
+      .from(eventParticipants)
+      .where(
+        and(
+          eq(eventParticipants.userId, userId),
+          eq(eventParticipants.eventId, eventId)
+        )
+      );
+
+    const [waitlisted] = await tx
+      .select()
+      .from(eventWaitlist)
+      .where(
+        and(
+          eq(eventWaitlist.userId, userId),
+          eq(eventWaitlist.eventId, eventId)
+        )
+      );
+
+    if (status === "going") {
+      if (existing?.status === "going") {
+        return { status: "already_joined" as const };
+      }
+      if (waitlisted) return { status: "already_waitlisted" as const };
+
+      const goingCount = await countGoing(tx, eventId);
+      if (event.capacity !== null && goingCount >= event.capacity) {
+        const [entry] = await tx
+          .insert(eventWaitlist)
+          .values({ userId, eventId })
+          .returning();
+
+        const [position] = await tx
+          .select({ count: count() })
+          .from(eventWaitlist)
+          .where(
+            and(
+              eq(eventWaitlist.eventId, eventId),
+              lte(eventWaitlist.createdAt, entry.createdAt)
+            )
+          );
+
+        return {
+          status: "waitlisted" as const,
+          waitlistEntry: entry,
+          position: position.count,
+        };
+      }
+    } else if (waitlisted) {
+      // Not going anymore, so give up the waitlist place
+      await tx
+        .delete(eventWaitlist)
+        .where(
+          and(
+            eq(eventWaitlist.userId, userId),
+            eq(eventWaitlist.eventId, eventId)
+          )
+        );
+    }
+
+    const [participation] = await tx
+      .insert(eventParticipants)
+      .values({ userId, eventId, status, respondedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [eventParticipants.userId, eventParticipants.eventId],
+        set: { status, respondedAt: new Date() },
+      })
+      .returning();
+
+    // Giving up a spot lets the next waitlisted user in
+    const promoted =
+      existing?.status === "going" ? await fillFromWaitlist(tx, event) : [];
+
+    return {
+      status: status === "going" ? ("joined" as const) : ("updated" as const),
+      participation,
+      promoted,
+    };
+  });
+};
+
+// Join event, or its waitlist when the event is full
+export const joinEvent = async (userId: string, eventId: string) => {
+  return updateRsvp(userId, eventId, "going");
+};
+
+// Invite user to event unless they already responded
+export const inviteToEvent = async (userId: string, eventId: string) => {
+  const [invitation] = await db
+    .insert(eventParticipants)
+    .values({ userId, eventId, status: "invited" })
+    .onConflictDoNothing()
+    .returning();
 
-  return participation;
+  return invitation;
 };
 
-// Leave event
+// Leave event or its waitlist, promoting waitlisted users into the free spot
 export const leaveEvent = async (userId: string, eventId: string) => {
+  return db.transaction(async (tx) => {
+    const event = await lockEvent(tx, eventId);
+    if (!event) return { participation: undefined, promoted: [] };
+
+    const [participation] = await tx
+      .delete(eventParticipants)
+      .where(
+        and(
+          eq(eventParticipants.userId, userId),
+          eq(eventParticipants.eventId, eventId)
+        )
+      )
+      .returning();
+
+    const [waitlistEntry] = await tx
+      .delete(eventWaitlist)
+      .where(
+        and(
+          eq(eventWaitlist.userId, userId),
+          eq(eventWaitlist.eventId, eventId)
+        )
+      )
+      .returning();
+
+    const promoted =
+      participation?.status === "going"
+        ? await fillFromWaitlist(tx, event)
+        : [];
+
+    return { participation, waitlistEntry, promoted };
+  });
+};
+
+// Promote waitlisted users after event capacity was raised
+export const promoteWaitlistedUsers = async (eventId: string) => {
+  return db.transaction(async (tx) => {
+    const event = await lockEvent(tx, eventId);
+    if (!event) return [];
+
+    return fillFromWaitlist(tx, event);
+  });
+};
+
+// Get event waitlist in promotion order
+export const getEventWaitlist = async (
+  eventId: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const waitlist = await db
+    .select({
+      user: users,
+      createdAt: eventWaitlist.createdAt,
+    })
+    .from(eventWaitlist)
+    .innerJoin(users, eq(eventWaitlist.userId, users.id))
+    .where(eq(eventWaitlist.eventId, eventId))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(eventWaitlist.createdAt));
+
+  return waitlist;
+};
+
+// Get user's RSVP status for event, null when they have none
+export const getParticipationStatus = async (
+  userId: string,
+  eventId: string
+): Promise<RsvpStatus | null> => {
   const [participation] = await db
-    .delete(eventParticipants)
+    .select({ status: eventParticipants.status })
+    .from(eventParticipants)
     .where(
       and(
         eq(eventParticipants.userId, userId),
         eq(eventParticipants.eventId, eventId)
       )
-    )
-    .returning();
+    );
 
-  return participation;
+  return participation ? (participation.status as RsvpStatus) : null;
 };
 
-// Check if user is participating in event
-export const isUserParticipating = async (userId: string, eventId: string) => {
-  const [participation] = await db
-    .select()
+// Get IDs of users affected by changes to the event: going, maybe and waitlisted
+export const getEventAudience = async (eventId: string) => {
+  const participants = await db
+    .select({ userId: eventParticipants.userId })
     .from(eventParticipants)
     .where(
       and(
-        eq(eventParticipants.userId, userId),
-        eq(eventParticipants.eventId, eventId)
+        eq(eventParticipants.eventId, eventId),
+        inArray(eventParticipants.status, ["going", "maybe"])
       )
     );
 
-  return !!participation;
+  const waitlisted = await db
+    .select({ userId: eventWaitlist.userId })
+    .from(eventWaitlist)
+    .where(eq(eventWaitlist.eventId, eventId));
+
+  return [...participants, ...waitlisted].map((row) => row.userId);
 };
 
 // Get event participants
 export const getEventParticipants = async (
   eventId: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  status?: RsvpStatus
 ) => {
   const offset = (page - 1) * limit;
 
   const participants = await db
     .select({
       user: users,
+      status: eventParticipants.status,
       joinedAt: eventParticipants.joinedAt,
+      respondedAt: eventParticipants.respondedAt,
+      checkedInAt: eventParticipants.checkedInAt,
     })
     .from(eventParticipants)
     .innerJoin(users, eq(eventParticipants.userId, users.id))
-    .where(eq(eventParticipants.eventId, eventId))
+    .where(
+      and(
+        eq(eventParticipants.eventId, eventId),
+        status ? eq(eventParticipants.status, status) : undefined
+      )
+    )
     .limit(limit)
     .offset(offset)
     .orderBy(desc(eventParticipants.joinedAt));
@@ -327,6 +891,93 @@ export const getEventParticipants = async (
   return participants;
 };
 
+// Record check-in of a going participant; only the first scan counts
+export const checkInParticipant = async (userId: string, eventId: string) => {
+  const [participation] = await db
+    .update(eventParticipants)
+    .set({ checkedInAt: new Date() })
+    .where(
+      and(
+        eq(eventParticipants.userId, userId),
+        eq(eventParticipants.eventId, eventId),
+        eq(eventParticipants.status, "going"),
+        isNull(eventParticipants.checkedInAt)
+      )
+    )
+    .returning();
+
+  if (participation) return { status: "checked_in" as const, participation };
+
+  const [existing] = await db
+    .select()
+    .from(eventParticipants)
+    .where(
+      and(
+        eq(eventParticipants.userId, userId),
+        eq(eventParticipants.eventId, eventId)
+      )
+    );
+
+  if (existing?.checkedInAt) {
+    return { status: "already_checked_in" as const, participation: existing };
+  }
+
+  return { status: "not_attending" as const };
+};
+
+// Get attendance of going participants: joined vs checked in
+export const getAttendanceSummary = async (eventId: string) => {
+  const [summary] = await db
+    .select({
+      joined: count(),
+      checkedIn: count(eventParticipants.checkedInAt),
+    })
+    .from(eventParticipants)
+    .where(
+      and(
+        eq(eventParticipants.eventId, eventId),
+        eq(eventParticipants.status, "going")
+      )
+    );
+
+  return summary;
+};
+
+// Get going participants with check-in times, optionally only (not) checked in
+export const getEventAttendance = async (
+  eventId: string,
+  page: number = 1,
+  limit: number = 10,
+  checkedIn?: boolean
+) => {
+  const offset = (page - 1) * limit;
+
+  const attendance = await db
+    .select({
+      user: users,
+      joinedAt: eventParticipants.joinedAt,
+      checkedInAt: eventParticipants.checkedInAt,
+    })
+    .from(eventParticipants)
+    .innerJoin(users, eq(eventParticipants.userId, users.id))
+    .where(
+      and(
+        eq(eventParticipants.eventId, eventId),
+        eq(eventParticipants.status, "going"),
+        checkedIn === undefined
+          ? undefined
+          : checkedIn
+            ? isNotNull(eventParticipants.checkedInAt)
+            : isNull(eventParticipants.checkedInAt)
+      )
+    )
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(users.name));
+
+  return attendance;
+};
+
 // Add event review
 export const addEventReview = async (reviewData: {
   eventId: string;
@@ -371,7 +1022,7 @@ export const getEventsByOrganizer = async (
   const offset = (page - 1) * limit;
 
   const organizerEvents = await db
-    .select()
+    .select(eventColumns)
     .from(events)
     .where(eq(events.organizerId, organizerId))
     .limit(limit)
@@ -380,3 +1031,24 @@ export const getEventsByOrganizer = async (
 
   return organizerEvents;
 };
+
+// Check if organizer already has an event with this title and start
+export const hasOrganizerEvent = async (
+  organizerId: string,
+  title: string,
+  date: Date
+) => {
+  const [event] = await db
+    .select({ id: events.id })
+    .from(events)
+    .where(
+      and(
+        eq(events.organizerId, organizerId),
+        eq(events.title, title),
+        eq(events.date, date)
+      )
+    )
+    .limit(1);
+
+  return !!event;
+};
@@ -1,6 +1,7 @@
 import { eq, desc, asc, like, and, or } from "drizzle-orm";
 import { db } from "../db";
-import { groups, users, groupMembers } from "../schema";
+import { groups, users, groupMembers, events } from "../schema";
+import { eventColumns, isDiscoverable } from "./events";
 
 // Get all groups with pagination
 export const getAllGroups = async (page: number = 1, limit: number = 10) => {
@@ -204,4 +205,19 @@ export const getUserGroups = async (userId: string, page: number = 1, limit: num
     .orderBy(desc(groupMembers.joinedAt));
 
   return userGroups;
+};
+
+// Get events posted to group
+export const getGroupEvents = async (groupId: string, page: number = 1, limit: number = 10) => {
+  const offset = (page - 1) * limit;
+  
+  const groupEvents = await db
+    .select(eventColumns)
+    .from(events)
+    .where(and(eq(events.groupId, groupId), isDiscoverable()))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(desc(events.date));
+
+  return groupEvents;
 }; 
\ No newline at end of file
@@ -1,7 +1,18 @@
 export * from './users';
 export * from './events';
+export * from './event_series';
+export * from './event_imports';
+export * from './event_roles';
+export * from './event_invite_links';
+export * from './event_comments';
+export * from './venues';
+export * from './tickets';
 export * from './groups';
 export * from './auth';
+export * from './sessions';
+export * from './two_factor';
+export * from './api_keys';
+export * from './calendar_feeds';
 export * from './social';
 export * from './notifications';
 export * from './verification'; 
\ No newline at end of file
@@ -40,6 +40,16 @@ export const getUnreadNotifications = async (
   return unreadNotifications;
 };
 
+// Get notification by ID
+export const getNotificationById = async (notificationId: string) => {
+  const [notification] = await db
+    .select()
+    .from(notifications)
+    .where(eq(notifications.id, notificationId));
+
+  return notification;
+};
+
 // Create notification
 export const createNotification = async (notificationData: {
   userId: string;
@@ -0,0 +1,92 @@
+import { eq, and, gt, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { sessions } from "../schema";
+
+// Create session for a refresh token
+export const createSession = async (sessionData: {
+  userId: string;
+  familyId: string;
+  refreshTokenHash: string;
+  expiresAt: Date;
+}) => {
+  const [session] = await db.insert(sessions).values(sessionData).returning();
+
+  return session;
+};
+
+// Get session by refresh token hash
+export const getSessionByTokenHash = async (refreshTokenHash: string) => {
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.refreshTokenHash, refreshTokenHash));
+
+  return session;
+};
+
+// Revoke current session and issue its successor in the same family.
+// Returns null if the session was already rotated by a concurrent request.
+export const rotateSession = async (
+  sessionId: string,
+  next: { refreshTokenHash: string; expiresAt: Date }
+) => {
+  return db.transaction(async (tx) => {
+    const [revoked] = await tx
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)))
+      .returning();
+
+    if (!revoked) return null;
+
+    const [session] = await tx
+      .insert(sessions)
+      .values({
+        userId: revoked.userId,
+        familyId: revoked.familyId,
+        ...next,
+      })
+      .returning();
+
+    return session;
+  });
+};
+
+// Revoke every session in a family
+export const revokeSessionFamily = async (familyId: string) => {
+  const revokedSessions = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.familyId, familyId), isNull(sessions.revokedAt)))
+    .returning();
+
+  return revokedSessions;
+};
+
+// Revoke every session belonging to a user
+export const revokeUserSessions = async (userId: string) => {
+  const revokedSessions = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning();
+
+  return revokedSessions;
+};
+
+// Check if a session family still has a live refresh token
+export const isSessionFamilyActive = async (familyId: string) => {
+  const [session] = await db
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.familyId, familyId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return !!session;
+};
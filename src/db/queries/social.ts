@@ -123,6 +123,16 @@ export const addReview = async (reviewData: {
   return review;
 };
 
+// Get event review by ID
+export const getReviewById = async (reviewId: string) => {
+  const [review] = await db
+    .select()
+    .from(eventReviews)
+    .where(eq(eventReviews.id, reviewId));
+
+  return review;
+};
+
 // Update event review
 export const updateReview = async (
   reviewId: string,
@@ -0,0 +1,576 @@
+import {
+  eq,
+  and,
+  desc,
+  asc,
+  inArray,
+  count,
+  exists,
+  not,
+  lt,
+  sql,
+} from "drizzle-orm";
+import { db } from "../db";
+import {
+  events,
+  users,
+  eventParticipants,
+  eventWaitlist,
+  ticketTypes,
+  ticketOrders,
+} from "../schema";
+import { lockEvent, fillFromWaitlist } from "./events";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Time a pending order holds its ticket while the payment goes through
+const PENDING_ORDER_TTL_MINUTES = 15;
+
+// Tickets left for sale
+const availableColumn = sql<number>`${ticketTypes.quantity} - ${ticketTypes.quantitySold}`;
+
+// Create ticket type for event
+export const createTicketType = async (ticketTypeData: {
+  eventId: string;
+  name: string;
+  description?: string;
+  priceCents: number;
+  currency: string;
+  quantity: number;
+  salesStartAt?: Date;
+  salesEndAt?: Date;
+}) => {
+  const [ticketType] = await db
+    .insert(ticketTypes)
+    .values(ticketTypeData)
+    .returning();
+
+  return ticketType;
+};
+
+// Get event's ticket types with remaining availability
+export const getEventTicketTypes = async (eventId: string) => {
+  const eventTicketTypes = await db
+    .select({ ticketType: ticketTypes, available: availableColumn })
+    .from(ticketTypes)
+    .where(eq(ticketTypes.eventId, eventId))
+    .orderBy(asc(ticketTypes.priceCents), asc(ticketTypes.createdAt));
+
+  return eventTicketTypes;
+};
+
+// Get ticket type by ID
+export const getTicketTypeById = async (ticketTypeId: string) => {
+  const [ticketType] = await db
+    .select()
+    .from(ticketTypes)
+    .where(eq(ticketTypes.id, ticketTypeId));
+
+  return ticketType;
+};
+
+// Check if event sells tickets
+export const hasTicketTypes = async (eventId: string) => {
+  const [ticketType] = await db
+    .select({ id: ticketTypes.id })
+    .from(ticketTypes)
+    .where(eq(ticketTypes.eventId, eventId))
+    .limit(1);
+
+  return !!ticketType;
+};
+
+// Update ticket type; quantity cannot drop below the tickets already sold
+export const updateTicketType = async (
+  ticketTypeId: string,
+  updateData: Partial<{
+    name: string;
+    description: string | null;
+    priceCents: number;
+    quantity: number;
+    salesStartAt: Date | null;
+    salesEndAt: Date | null;
+  }>
+) => {
+  return db.transaction(async (tx) => {
+    const [ticketType] = await tx
+      .select()
+      .from(ticketTypes)
+      .where(eq(ticketTypes.id, ticketTypeId))
+      .for("update");
+
+    if (!ticketType) return { status: "not_found" as const };
+
+    if (
+      updateData.quantity !== undefined &&
+      updateData.quantity < ticketType.quantitySold
+    ) {
+      return { status: "below_sold" as const, sold: ticketType.quantitySold };
+    }
+
+    const [updatedTicketType] = await tx
+      .update(ticketTypes)
+      .set(updateData)
+      .where(eq(ticketTypes.id, ticketTypeId))
+      .returning();
+
+    return { status: "updated" as const, ticketType: updatedTicketType };
+  });
+};
+
+// Delete ticket type that has never been ordered
+export const deleteTicketType = async (ticketTypeId: string) => {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select({ id: ticketOrders.id })
+      .from(ticketOrders)
+      .where(eq(ticketOrders.ticketTypeId, ticketTypeId))
+      .limit(1);
+
+    if (order) return { status: "has_orders" as const };
+
+    const [deletedTicketType] = await tx
+      .delete(ticketTypes)
+      .where(eq(ticketTypes.id, ticketTypeId))
+      .returning();
+
+    if (!deletedTicketType) return { status: "not_found" as const };
+
+    return { status: "deleted" as const, ticketType: deletedTicketType };
+  });
+};
+
+// Count spots taken at event: going participants plus pending orders of
+// buyers who are not going yet
+const countTakenSpots = async (tx: Transaction, eventId: string) => {
+  const [going] = await tx
+    .select({ count: count() })
+    .from(eventParticipants)
+    .where(
+      and(
+        eq(eventParticipants.eventId, eventId),
+        eq(eventParticipants.status, "going")
+      )
+    );
+
+  const [pending] = await tx
+    .select({ count: count() })
+    .from(ticketOrders)
+    .where(
+      and(
+        eq(ticketOrders.eventId, eventId),
+        eq(ticketOrders.status, "pending"),
+        not(
+          exists(
+            tx
+              .select({ userId: eventParticipants.userId })
+              .from(eventParticipants)
+              .where(
+                and(
+                  eq(eventParticipants.eventId, ticketOrders.eventId),
+                  eq(eventParticipants.userId, ticketOrders.userId),
+                  eq(eventParticipants.status, "going")
+                )
+              )
+          )
+        )
+      )
+    );
+
+  return going.count + pending.count;
+};
+
+// Fail event's pending orders whose payment never finished, e.g. after a
+// crash mid-checkout, and put their tickets back on sale
+const expirePendingOrders = async (tx: Transaction, eventId: string) => {
+  const expiredOrders = await tx
+    .update(ticketOrders)
+    .set({
+      status: "failed",
+      failureReason: "Payment was not completed in time",
+    })
+    .where(
+      and(
+        eq(ticketOrders.eventId, eventId),
+        eq(ticketOrders.status, "pending"),
+        lt(ticketOrders.expiresAt, new Date())
+      )
+    )
+    .returning({ ticketTypeId: ticketOrders.ticketTypeId });
+
+  for (const order of expiredOrders) {
+    await releaseTicket(tx, order.ticketTypeId);
+  }
+};
+
+// Hold a ticket for user in a pending order. The event row is locked so a
+// user cannot order two tickets for the same event at once and sales stay
+// within the event's capacity.
+export const reserveTicket = async (userId: string, ticketTypeId: string) => {
+  return db.transaction(async (tx) => {
+    const [ticketType] = await tx
+      .select()
+      .from(ticketTypes)
+      .where(eq(ticketTypes.id, ticketTypeId));
+
+    if (!ticketType) return { status: "not_found" as const };
+
+    const [event] = await tx
+      .select({ id: events.id, capacity: events.capacity })
+      .from(events)
+      .where(eq(events.id, ticketType.eventId))
+      .for("update");
+
+    // The event may have been deleted while this transaction waited for it
+    if (!event) return { status: "not_found" as const };
+
+    // Abandoned orders give their tickets and spots back before counting
+    await expirePendingOrders(tx, event.id);
+
+    const [lockedTicketType] = await tx
+      .select()
+      .from(ticketTypes)
+      .where(eq(ticketTypes.id, ticketTypeId))
+      .for("update");
+
+    if (!lockedTicketType) return { status: "not_found" as const };
+
+    const now = new Date();
+    if (
+      (lockedTicketType.salesStartAt && now < lockedTicketType.salesStartAt) ||
+      (lockedTicketType.salesEndAt && now > lockedTicketType.salesEndAt)
+    ) {
+      return { status: "not_on_sale" as const };
+    }
+
+    if (lockedTicketType.quantitySold >= lockedTicketType.quantity) {
+      return { status: "sold_out" as const };
+    }
+
+    const [existingOrder] = await tx
+      .select({ id: ticketOrders.id })
+      .from(ticketOrders)
+      .where(
+        and(
+          eq(ticketOrders.userId, userId),
+          eq(ticketOrders.eventId, lockedTicketType.eventId),
+          inArray(ticketOrders.status, ["pending", "completed", "refunding"])
+        )
+      );
+
+    if (existingOrder) return { status: "already_ordered" as const };
+
+    // Buyers who are already going keep their spot
+    if (event.capacity !== null) {
+      const [participation] = await tx
+        .select({ status: eventParticipants.status })
+        .from(eventParticipants)
+        .where(
+          and(
+            eq(eventParticipants.userId, userId),
+            eq(eventParticipants.eventId, event.id)
+          )
+        );
+
+      if (
+        participation?.status !== "going" &&
+        (await countTakenSpots(tx, event.id)) >= event.capacity
+      ) {
+        return { status: "full" as const };
+      }
+    }
+
+    await tx
+      .update(ticketTypes)
+      .set({ quantitySold: sql`${ticketTypes.quantitySold} + 1` })
+      .where(eq(ticketTypes.id, ticketTypeId));
+
+    const [order] = await tx
+      .insert(ticketOrders)
+      .values({
+        userId,
+        eventId: lockedTicketType.eventId,
+        ticketTypeId,
+        amountCents: lockedTicketType.priceCents,
+        currency: lockedTicketType.currency,
+        expiresAt: new Date(Date.now() + PENDING_ORDER_TTL_MINUTES * 60 * 1000),
+      })
+      .returning();
+
+    return {
+      status: "reserved" as const,
+      order,
+      ticketType: lockedTicketType,
+    };
+  });
+};
+
+// Put ticket held by an order back on sale
+const releaseTicket = async (tx: Transaction, ticketTypeId: string) => {
+  await tx
+    .update(ticketTypes)
+    .set({ quantitySold: sql`${ticketTypes.quantitySold} - 1` })
+    .where(eq(ticketTypes.id, ticketTypeId));
+};
+
+// Mark paid order completed and make the buyer a participant
+export const completeOrder = async (
+  orderId: string,
+  payment: { provider: string | null; paymentId: string | null }
+) => {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .update(ticketOrders)
+      .set({
+        status: "completed",
+        paymentProvider: payment.provider,
+        paymentId: payment.paymentId,
+        completedAt: new Date(),
+      })
+      .where(
+        and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "pending"))
+      )
+      .returning();
+
+    if (!order) return undefined;
+
+    // A ticket replaces any earlier RSVP or waitlist place
+    await tx
+      .delete(eventWaitlist)
+      .where(
+        and(
+          eq(eventWaitlist.userId, order.userId),
+          eq(eventWaitlist.eventId, order.eventId)
+        )
+      );
+
+    await tx
+      .insert(eventParticipants)
+      .values({
+        userId: order.userId,
+        eventId: order.eventId,
+        status: "going",
+        respondedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [eventParticipants.userId, eventParticipants.eventId],
+        set: { status: "going", respondedAt: new Date() },
+      });
+
+    return order;
+  });
+};
+
+// Mark order failed and release its ticket
+export const failOrder = async (
+  orderId: string,
+  payment: {
+    provider: string | null;
+    paymentId?: string;
+    failureReason?: string;
+  }
+) => {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .update(ticketOrders)
+      .set({
+        status: "failed",
+        paymentProvider: payment.provider,
+        paymentId: payment.paymentId,
+        failureReason: payment.failureReason,
+      })
+      .where(
+        and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "pending"))
+      )
+      .returning();
+
+    if (order) await releaseTicket(tx, order.ticketTypeId);
+
+    return order;
+  });
+};
+
+// Claim completed order for a refund so concurrent refunds cannot pay it
+// out twice
+export const claimOrderRefund = async (orderId: string) => {
+  const [order] = await db
+    .update(ticketOrders)
+    .set({ status: "refunding" })
+    .where(
+      and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "completed"))
+    )
+    .returning();
+
+  return order;
+};
+
+// Hand claimed order back when its payment could not be refunded
+export const releaseOrderRefund = async (orderId: string) => {
+  const [order] = await db
+    .update(ticketOrders)
+    .set({ status: "completed" })
+    .where(
+      and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "refunding"))
+    )
+    .returning();
+
+  return order;
+};
+
+// Mark claimed order refunded, remove the participation, release the ticket
+// and move waitlisted users into the freed spot
+export const refundOrder = async (orderId: string) => {
+  return db.transaction(async (tx) => {
+    const [claimedOrder] = await tx
+      .select({ eventId: ticketOrders.eventId })
+      .from(ticketOrders)
+      .where(eq(ticketOrders.id, orderId));
+
+    if (!claimedOrder) return undefined;
+
+    const event = await lockEvent(tx, claimedOrder.eventId);
+
+    const [order] = await tx
+      .update(ticketOrders)
+      .set({ status: "refunded", refundedAt: new Date() })
+      .where(
+        and(eq(ticketOrders.id, orderId), eq(ticketOrders.status, "refunding"))
+      )
+      .returning();
+
+    if (!order) return undefined;
+
+    await tx
+      .delete(eventParticipants)
+      .where(
+        and(
+          eq(eventParticipants.userId, order.userId),
+          eq(eventParticipants.eventId, order.eventId)
+        )
+      );
+
+    await releaseTicket(tx, order.ticketTypeId);
+
+    // Nobody is promoted into a cancelled event
+    const promoted =
+      event && event.status !== "cancelled"
+        ? await fillFromWaitlist(tx, event)
+        : [];
+
+    return { order, promoted };
+  });
+};
+
+// Get order by ID with its ticket type and event
+export const getOrderById = async (orderId: string) => {
+  const [order] = await db
+    .select({
+      order: ticketOrders,
+      ticketType: ticketTypes,
+      event: {
+        id: events.id,
+        title: events.title,
+        organizerId: events.organizerId,
+      },
+    })
+    .from(ticketOrders)
+    .innerJoin(ticketTypes, eq(ticketOrders.ticketTypeId, ticketTypes.id))
+    .innerJoin(events, eq(ticketOrders.eventId, events.id))
+    .where(eq(ticketOrders.id, orderId));
+
+  return order;
+};
+
+// Get user's orders, newest first
+export const getUserOrders = async (
+  userId: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const userOrders = await db
+    .select({
+      order: ticketOrders,
+      ticketType: ticketTypes,
+      event: { id: events.id, title: events.title, date: events.date },
+    })
+    .from(ticketOrders)
+    .innerJoin(ticketTypes, eq(ticketOrders.ticketTypeId, ticketTypes.id))
+    .innerJoin(events, eq(ticketOrders.eventId, events.id))
+    .where(eq(ticketOrders.userId, userId))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(desc(ticketOrders.createdAt));
+
+  return userOrders;
+};
+
+// Get event's orders with buyers, newest first
+export const getEventOrders = async (
+  eventId: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const eventOrders = await db
+    .select({
+      order: ticketOrders,
+      ticketType: ticketTypes,
+      user: users,
+    })
+    .from(ticketOrders)
+    .innerJoin(ticketTypes, eq(ticketOrders.ticketTypeId, ticketTypes.id))
+    .innerJoin(users, eq(ticketOrders.userId, users.id))
+    .where(eq(ticketOrders.eventId, eventId))
+    .limit(limit)
+    .offset(offset)
+    .orderBy(desc(ticketOrders.createdAt));
+
+  return eventOrders;
+};
+
+// Check if event has any orders
+export const hasEventOrders = async (eventId: string) => {
+  const [order] = await db
+    .select({ id: ticketOrders.id })
+    .from(ticketOrders)
+    .where(eq(ticketOrders.eventId, eventId))
+    .limit(1);
+
+  return !!order;
+};
+
+// Get IDs of event's completed orders, oldest first
+export const getCompletedEventOrderIds = async (eventId: string) => {
+  const completedOrders = await db
+    .select({ id: ticketOrders.id })
+    .from(ticketOrders)
+    .where(
+      and(
+        eq(ticketOrders.eventId, eventId),
+        eq(ticketOrders.status, "completed")
+      )
+    )
+    .orderBy(asc(ticketOrders.createdAt));
+
+  return completedOrders.map((order) => order.id);
+};
+
+// Check if user holds a ticket for event
+export const hasCompletedOrder = async (userId: string, eventId: string) => {
+  const [order] = await db
+    .select({ id: ticketOrders.id })
+    .from(ticketOrders)
+    .where(
+      and(
+        eq(ticketOrders.userId, userId),
+        eq(ticketOrders.eventId, eventId),
+        eq(ticketOrders.status, "completed")
+      )
+    )
+    .limit(1);
+
+  return !!order;
+};
@@ -0,0 +1,117 @@
+import { eq, and, isNull, lt, or } from "drizzle-orm";
+import { db } from "../db";
+import { users, twoFactorSecrets, recoveryCodes } from "../schema";
+
+// Get user's TOTP secret (pending or enabled)
+export const getTwoFactorSecret = async (userId: string) => {
+  const [secret] = await db
+    .select()
+    .from(twoFactorSecrets)
+    .where(eq(twoFactorSecrets.userId, userId));
+
+  return secret;
+};
+
+// Store a new secret awaiting confirmation, replacing any previous one
+export const savePendingTwoFactorSecret = async (
+  userId: string,
+  secret: string
+) => {
+  const [saved] = await db
+    .insert(twoFactorSecrets)
+    .values({ userId, secret })
+    .onConflictDoUpdate({
+      target: twoFactorSecrets.userId,
+      set: { secret, lastUsedStep: null, createdAt: new Date() },
+    })
+    .returning();
+
+  return saved;
+};
+
+// Record accepted TOTP time step; false if it (or a later one) was used already
+export const claimTotpStep = async (userId: string, step: number) => {
+  const [claimed] = await db
+    .update(twoFactorSecrets)
+    .set({ lastUsedStep: step })
+    .where(
+      and(
+        eq(twoFactorSecrets.userId, userId),
+        or(
+          isNull(twoFactorSecrets.lastUsedStep),
+          lt(twoFactorSecrets.lastUsedStep, step)
+        )
+      )
+    )
+    .returning();
+
+  return !!claimed;
+};
+
+// Replace user's recovery codes
+export const replaceRecoveryCodes = async (
+  userId: string,
+  codeHashes: string[]
+) => {
+  return db.transaction(async (tx) => {
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+
+    return tx
+      .insert(recoveryCodes)
+      .values(codeHashes.map((codeHash) => ({ userId, codeHash })))
+      .returning();
+  });
+};
+
+// Turn on two-factor authentication with a fresh set of recovery codes
+export const enableTwoFactor = async (userId: string, codeHashes: string[]) => {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .update(users)
+      .set({ twoFactorEnabledAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await tx
+      .insert(recoveryCodes)
+      .values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+
+    return user;
+  });
+};
+
+// Turn off two-factor authentication and remove its secrets
+export const disableTwoFactor = async (userId: string) => {
+  return db.transaction(async (tx) => {
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await tx
+      .delete(twoFactorSecrets)
+      .where(eq(twoFactorSecrets.userId, userId));
+
+    const [user] = await tx
+      .update(users)
+      .set({ twoFactorEnabledAt: null })
+      .where(eq(users.id, userId))
+      .returning();
+
+    return user;
+  });
+};
+
+// Mark unused recovery code as used; false if no such code
+export const consumeRecoveryCode = async (userId: string, codeHash: string) => {
+  const [code] = await db
+    .update(recoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      )
+    )
+    .returning();
+
+  return !!code;
+};
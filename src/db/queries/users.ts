@@ -1,6 +1,7 @@
-import { eq, desc, asc, like, and, or } from "drizzle-orm";
+import { eq, desc, asc, like, and, or, inArray } from "drizzle-orm";
 import { db } from "../db";
 import { users, accounts, events, eventParticipants, follows, notifications } from "../schema";
+import { eventColumns, isListed, isDiscoverable } from "./events";
 
 // Get all users with pagination
 export const getAllUsers = async (page: number = 1, limit: number = 10) => {
@@ -58,6 +59,18 @@ export const getUserByUsername = async (username: string) => {
   return user;
 };
 
+// Get users by usernames, e.g. to resolve mentions
+export const getUsersByUsernames = async (usernames: string[]) => {
+  if (usernames.length === 0) return [];
+
+  const matchingUsers = await db
+    .select()
+    .from(users)
+    .where(inArray(users.username, usernames));
+
+  return matchingUsers;
+};
+
 // Create new user
 export const createUser = async (userData: {
   name: string;
@@ -83,6 +96,7 @@ export const updateUser = async (
     username: string;
     bio: string;
     image: string;
+    emailVerifiedAt: Date | null;
   }>
 ) => {
   const [updatedUser] = await db
@@ -94,6 +108,28 @@ export const updateUser = async (
   return updatedUser;
 };
 
+// Mark user's email address as verified
+export const markUserEmailVerified = async (userId: string) => {
+  const [updatedUser] = await db
+    .update(users)
+    .set({ emailVerifiedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
+
+  return updatedUser;
+};
+
+// Update user role
+export const updateUserRole = async (userId: string, role: string) => {
+  const [updatedUser] = await db
+    .update(users)
+    .set({ role })
+    .where(eq(users.id, userId))
+    .returning();
+
+  return updatedUser;
+};
+
 // Delete user
 export const deleteUser = async (userId: string) => {
   const [deletedUser] = await db
@@ -134,13 +170,13 @@ export const getUserProfile = async (userId: string) => {
   const userEvents = await db
     .select({ count: events.id })
     .from(events)
-    .where(eq(events.organizerId, userId));
+    .where(and(eq(events.organizerId, userId), isDiscoverable()));
 
   // Get user's participations count
   const userParticipations = await db
     .select({ count: eventParticipants.userId })
     .from(eventParticipants)
-    .where(eq(eventParticipants.userId, userId));
+    .where(and(eq(eventParticipants.userId, userId), eq(eventParticipants.status, "going")));
 
   // Get followers count
   const followers = await db
@@ -165,14 +201,14 @@ export const getUserProfile = async (userId: string) => {
   };
 };
 
-// Get user's events
-export const getUserEvents = async (userId: string, page: number = 1, limit: number = 10) => {
+// Get user's events; unlisted and private ones only when users view their own
+export const getUserEvents = async (userId: string, page: number = 1, limit: number = 10, viewerId?: string) => {
   const offset = (page - 1) * limit;
   
   const userEvents = await db
-    .select()
+    .select(eventColumns)
     .from(events)
-    .where(eq(events.organizerId, userId))
+    .where(and(eq(events.organizerId, userId), viewerId === userId ? isListed() : isDiscoverable(viewerId)))
     .limit(limit)
     .offset(offset)
     .orderBy(desc(events.date));
@@ -180,18 +216,19 @@ export const getUserEvents = async (userId: string, page: number = 1, limit: num
   return userEvents;
 };
 
-// Get user's participations
-export const getUserParticipations = async (userId: string, page: number = 1, limit: number = 10) => {
+// Get user's participations; others only see events they may discover
+export const getUserParticipations = async (userId: string, page: number = 1, limit: number = 10, viewerId?: string) => {
   const offset = (page - 1) * limit;
   
   const participations = await db
     .select({
-      event: events,
+      event: eventColumns,
+      status: eventParticipants.status,
       joinedAt: eventParticipants.joinedAt
     })
     .from(eventParticipants)
     .innerJoin(events, eq(eventParticipants.eventId, events.id))
-    .where(eq(eventParticipants.userId, userId))
+    .where(and(eq(eventParticipants.userId, userId), viewerId === userId ? undefined : isDiscoverable(viewerId)))
     .limit(limit)
     .offset(offset)
     .orderBy(desc(eventParticipants.joinedAt));
@@ -0,0 +1,145 @@
+import { eq, desc, asc, and, or, like, gte, count, sql } from "drizzle-orm";
+import { db } from "../db";
+import { venues, events, eventSeries, users } from "../schema";
+import { eventColumns, isDiscoverable } from "./events";
+
+type VenueData = {
+  name: string;
+  address: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  capacity?: number | null;
+  accessibility?: string | null;
+};
+
+// Get all venues with pagination
+export const getAllVenues = async (page: number = 1, limit: number = 10) => {
+  const offset = (page - 1) * limit;
+
+  const allVenues = await db
+    .select()
+    .from(venues)
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(venues.name));
+
+  const [totalCount] = await db.select({ count: count() }).from(venues);
+
+  return {
+    venues: allVenues,
+    pagination: {
+      page,
+      limit,
+      total: totalCount.count,
+      totalPages: Math.ceil(totalCount.count / limit),
+    },
+  };
+};
+
+// Get venue by ID
+export const getVenueById = async (venueId: string) => {
+  const [venue] = await db.select().from(venues).where(eq(venues.id, venueId));
+
+  return venue;
+};
+
+// Search venues by name or address
+export const searchVenues = async (
+  query: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  const offset = (page - 1) * limit;
+
+  const searchResults = await db
+    .select()
+    .from(venues)
+    .where(
+      or(like(venues.name, `%${query}%`), like(venues.address, `%${query}%`))
+    )
+    .limit(limit)
+    .offset(offset)
+    .orderBy(asc(venues.name));
+
+  return searchResults;
+};
+
+// Create new venue
+export const createVenue = async (
+  venueData: VenueData & { createdBy: string }
+) => {
+  const [venue] = await db.insert(venues).values(venueData).returning();
+
+  return venue;
+};
+
+// Update venue
+export const updateVenue = async (
+  venueId: string,
+  updateData: Partial<VenueData>
+) => {
+  const [updatedVenue] = await db
+    .update(venues)
+    .set(updateData)
+    .where(eq(venues.id, venueId))
+    .returning();
+
+  return updatedVenue;
+};
+
+// Delete venue
+export const deleteVenue = async (venueId: string) => {
+  const [deletedVenue] = await db
+    .delete(venues)
+    .where(eq(venues.id, venueId))
+    .returning();
+
+  return deletedVenue;
+};
+
+// Check if any event or series is linked to venue
+export const isVenueInUse = async (venueId: string) => {
+  const [venueEvents] = await db
+    .select({ count: count() })
+    .from(events)
+    .where(eq(events.venueId, venueId));
+
+  const [venueSeries] = await db
+    .select({ count: count() })
+    .from(eventSeries)
+    .where(eq(eventSeries.venueId, venueId));
+
+  return venueEvents.count + venueSeries.count > 0;
+};
+
+// Get events held at venue
+export const getVenueEvents = async (
+  venueId: string,
+  page: number = 1,
+  limit: number = 10,
+  upcomingOnly: boolean = false
+) => {
+  const offset = (page - 1) * limit;
+
+  const venueEvents = await db
+    .select({
+      event: eventColumns,
+      organizer: users,
+    })
+    .from(events)
+    .innerJoin(users, eq(events.organizerId, users.id))
+    .where(
+      upcomingOnly
+        ? and(
+            eq(events.venueId, venueId),
+            isDiscoverable(),
+            gte(sql`coalesce(${events.endDate}, ${events.date})`, new Date())
+          )
+        : and(eq(events.venueId, venueId), isDiscoverable())
+    )
+    .limit(limit)
+    .offset(offset)
+    .orderBy(upcomingOnly ? asc(events.date) : desc(events.date));
+
+  return venueEvents;
+};
@@ -0,0 +1,89 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  index,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+
+// Discussion on an event; replies point at the comment they answer
+export const eventComments = pgTable(
+  "event_comments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: uuid("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").references(() => users.id),
+    parentId: uuid("parent_id").references(
+      (): AnyPgColumn => eventComments.id,
+      { onDelete: "cascade" }
+    ),
+    body: text("body").notNull(),
+    editedAt: timestamp("edited_at"),
+    // Deleted comments keep their row so replies stay in their thread
+    deletedAt: timestamp("deleted_at"),
+    pinnedAt: timestamp("pinned_at"),
+    pinnedBy: uuid("pinned_by").references(() => users.id),
+    // Millisecond precision so listing cursors round-trip through JS dates
+    createdAt: timestamp("created_at", { precision: 3 }).notNull().defaultNow(),
+  },
+  (table) => ({
+    threadIdx: index("event_comments_thread_idx").on(
+      table.eventId,
+      table.parentId,
+      table.createdAt
+    ),
+  })
+);
+
+// Previous bodies of an edited comment
+export const eventCommentEdits = pgTable("event_comment_edits", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  commentId: uuid("comment_id")
+    .notNull()
+    .references(() => eventComments.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  editedAt: timestamp("edited_at").defaultNow(),
+});
+
+export const eventCommentsRelations = relations(
+  eventComments,
+  ({ one, many }) => ({
+    event: one(events, {
+      fields: [eventComments.eventId],
+      references: [events.id],
+    }),
+    user: one(users, {
+      fields: [eventComments.userId],
+      references: [users.id],
+      relationName: "eventComments",
+    }),
+    pinner: one(users, {
+      fields: [eventComments.pinnedBy],
+      references: [users.id],
+      relationName: "pinnedEventComments",
+    }),
+    parent: one(eventComments, {
+      fields: [eventComments.parentId],
+      references: [eventComments.id],
+      relationName: "replies",
+    }),
+    replies: many(eventComments, { relationName: "replies" }),
+    edits: many(eventCommentEdits),
+  })
+);
+
+export const eventCommentEditsRelations = relations(
+  eventCommentEdits,
+  ({ one }) => ({
+    comment: one(eventComments, {
+      fields: [eventCommentEdits.commentId],
+      references: [eventComments.id],
+    }),
+  })
+);
@@ -0,0 +1,41 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  integer,
+  boolean,
+  jsonb,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+
+export type EventImportRowResult = {
+  row: number;
+  uid?: string;
+  status: "created" | "valid" | "skipped" | "failed";
+  eventId?: string;
+  title?: string;
+  reason?: string;
+  errors?: string[];
+};
+
+// Outcome of a bulk event import, kept so organizers can review it later
+export const eventImports = pgTable("event_imports", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  format: varchar("format", { length: 10 }).notNull(), // csv, ics
+  dryRun: boolean("dry_run").notNull().default(false),
+  totalRows: integer("total_rows").notNull(),
+  createdCount: integer("created_count").notNull(), // valid rows in a dry run
+  skippedCount: integer("skipped_count").notNull(),
+  failedCount: integer("failed_count").notNull(),
+  rows: jsonb("rows").$type<EventImportRowResult[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const eventImportsRelations = relations(eventImports, ({ one }) => ({
+  user: one(users, { fields: [eventImports.userId], references: [users.id] }),
+}));
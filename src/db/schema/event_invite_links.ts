@@ -0,0 +1,39 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+
+// Shareable link that invites whoever opens it, until it expires or runs out
+export const eventInviteLinks = pgTable("event_invite_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  eventId: uuid("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).unique().notNull(),
+  createdBy: uuid("created_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  maxUses: integer("max_uses"), // null means unlimited
+  uses: integer("uses").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const eventInviteLinksRelations = relations(
+  eventInviteLinks,
+  ({ one }) => ({
+    event: one(events, {
+      fields: [eventInviteLinks.eventId],
+      references: [events.id],
+    }),
+    creator: one(users, {
+      fields: [eventInviteLinks.createdBy],
+      references: [users.id],
+    }),
+  })
+);
@@ -1,4 +1,10 @@
-import { pgTable, uuid, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  primaryKey,
+} from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { users } from "./users";
 import { events } from "./events";
@@ -12,7 +18,13 @@ export const eventParticipants = pgTable(
     eventId: uuid("event_id")
       .notNull()
       .references(() => events.id),
+    // going, maybe, not_going or invited; only going takes a spot
+    status: varchar("status", { length: 20 }).notNull().default("going"),
     joinedAt: timestamp("joined_at").defaultNow(),
+    // When the user last answered; null while an invitation is unanswered
+    respondedAt: timestamp("responded_at"),
+    // Set when the organizer scans the participant's check-in code
+    checkedInAt: timestamp("checked_in_at"),
   },
   (table) => ({
     pk: primaryKey({ columns: [table.userId, table.eventId] }),
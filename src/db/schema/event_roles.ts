@@ -0,0 +1,49 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  primaryKey,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+
+// Hosts helping the organizer run an event, one role per user
+export const eventRoles = pgTable(
+  "event_roles",
+  {
+    eventId: uuid("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    role: varchar("role", { length: 20 }).notNull(), // co_organizer, moderator, staff
+    // Roles only take effect once the invited user accepts
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted
+    invitedBy: uuid("invited_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    acceptedAt: timestamp("accepted_at"),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.eventId, table.userId] }),
+  })
+);
+
+export const eventRolesRelations = relations(eventRoles, ({ one }) => ({
+  event: one(events, {
+    fields: [eventRoles.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventRoles.userId],
+    references: [users.id],
+    relationName: "eventRoles",
+  }),
+  inviter: one(users, {
+    fields: [eventRoles.invitedBy],
+    references: [users.id],
+    relationName: "eventRoleInvitations",
+  }),
+}));
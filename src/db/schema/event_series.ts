@@ -0,0 +1,52 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  doublePrecision,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+import { venues } from "./venues";
+import { groups } from "./groups";
+
+// Template and recurrence rule shared by generated event occurrences
+export const eventSeries = pgTable("event_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizerId: uuid("organizer_id")
+    .notNull()
+    .references(() => users.id),
+  title: varchar("title", { length: 100 }),
+  description: text("description"),
+  location: varchar("location", { length: 255 }),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  venueId: uuid("venue_id").references(() => venues.id),
+  groupId: uuid("group_id").references(() => groups.id, {
+    onDelete: "set null",
+  }),
+  interests: text("interests").array(),
+  capacity: integer("capacity"),
+  visibility: varchar("visibility", { length: 20 }).notNull().default("public"), // public, unlisted, private
+  frequency: varchar("frequency", { length: 10 }).notNull(), // daily, weekly, monthly
+  interval: integer("interval").notNull().default(1),
+  byWeekday: integer("by_weekday").array(),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes"),
+  timeZone: varchar("time_zone", { length: 64 }).notNull().default("UTC"),
+  until: timestamp("until"),
+  count: integer("count"),
+  exceptions: timestamp("exceptions").array(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  organizer: one(users, {
+    fields: [eventSeries.organizerId],
+    references: [users.id],
+  }),
+  occurrences: many(events),
+}));
@@ -0,0 +1,31 @@
+import { pgTable, uuid, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+
+export const eventWaitlist = pgTable(
+  "event_waitlist",
+  {
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    eventId: uuid("event_id")
+      .notNull()
+      .references(() => events.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.eventId] }),
+  })
+);
+
+export const eventWaitlistRelations = relations(eventWaitlist, ({ one }) => ({
+  user: one(users, {
+    fields: [eventWaitlist.userId],
+    references: [users.id],
+  }),
+  event: one(events, {
+    fields: [eventWaitlist.eventId],
+    references: [events.id],
+  }),
+}));
@@ -1,25 +1,92 @@
-import { pgTable, uuid, varchar, text, timestamp } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  doublePrecision,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { users } from "./users";
 import { eventParticipants } from "./event_participants";
 import { eventReviews } from "./event_reviews";
+import { eventComments } from "./event_comments";
+import { eventWaitlist } from "./event_waitlist";
+import { eventSeries } from "./event_series";
+import { venues } from "./venues";
+import { groups } from "./groups";
+import { ticketTypes } from "./ticket_types";
+import { eventRoles } from "./event_roles";
+import { eventInviteLinks } from "./event_invite_links";
 
-export const events = pgTable("events", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  title: varchar("title", { length: 100 }),
-  description: text("description"),
-  date: timestamp("date").notNull(),
-  location: varchar("location", { length: 255 }),
-  organizerId: uuid("organizer_id").references(() => users.id),
-  interests: text("interests").array(), 
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const events = pgTable(
+  "events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    title: varchar("title", { length: 100 }),
+    description: text("description"),
+    // Start and end instants; shown as wall-clock time in time_zone
+    date: timestamp("date", { withTimezone: true }).notNull(),
+    endDate: timestamp("end_date", { withTimezone: true }),
+    timeZone: varchar("time_zone", { length: 64 }).notNull().default("UTC"), // IANA name
+    location: varchar("location", { length: 255 }),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    venueId: uuid("venue_id").references(() => venues.id),
+    organizerId: uuid("organizer_id").references(() => users.id),
+    groupId: uuid("group_id").references(() => groups.id, {
+      onDelete: "set null",
+    }),
+    interests: text("interests").array(), 
+    capacity: integer("capacity"), // null means unlimited
+    seriesId: uuid("series_id").references(() => eventSeries.id),
+    // Start time the series rule generated, kept when the occurrence is moved
+    occurrenceDate: timestamp("occurrence_date"),
+    status: varchar("status", { length: 20 }).notNull().default("published"), // draft, scheduled, published, cancelled
+    // Scheduled events become published once this time has passed
+    publishAt: timestamp("publish_at", { withTimezone: true }),
+    cancelledAt: timestamp("cancelled_at"),
+    // Unlisted events are left out of listings, private ones are only
+    // visible to hosts and invited users
+    visibility: varchar("visibility", { length: 20 }).notNull().default("public"), // public, unlisted, private
+    // iCalendar SEQUENCE, bumped on every change so calendar clients update
+    sequence: integer("sequence").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    coordinatesIdx: index("events_coordinates_idx").on(
+      table.latitude,
+      table.longitude
+    ),
+    statusIdx: index("events_status_idx").on(table.status),
+  })
+);
 
 export const eventsRelations = relations(events, ({ one, many }) => ({
   organizer: one(users, {
     fields: [events.organizerId],
     references: [users.id],
   }),
+  venue: one(venues, {
+    fields: [events.venueId],
+    references: [venues.id],
+  }),
+  group: one(groups, {
+    fields: [events.groupId],
+    references: [groups.id],
+  }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
   participants: many(eventParticipants),
+  waitlist: many(eventWaitlist),
+  roles: many(eventRoles),
+  inviteLinks: many(eventInviteLinks),
+  ticketTypes: many(ticketTypes),
   reviews: many(eventReviews),
+  comments: many(eventComments),
 }));
@@ -2,6 +2,7 @@ import { pgTable, uuid, varchar, timestamp } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { users } from "./users";
 import { groupMembers } from "./group_members";
+import { events } from "./events";
 
 export const groups = pgTable("groups", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -13,4 +14,5 @@ export const groups = pgTable("groups", {
 export const groupsRelations = relations(groups, ({ one, many }) => ({
   creator: one(users, { fields: [groups.createdBy], references: [users.id] }),
   members: many(groupMembers),
+  events: many(events),
 }));
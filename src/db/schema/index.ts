@@ -1,10 +1,26 @@
 export * from "./users";
 export * from "./accounts";
+export * from "./credentials";
+export * from "./sessions";
+export * from "./auth_tokens";
+export * from "./two_factor_secrets";
+export * from "./recovery_codes";
+export * from "./api_keys";
+export * from "./calendar_feeds";
 export * from "./events";
+export * from "./event_series";
+export * from "./event_imports";
+export * from "./venues";
 export * from "./event_participants";
+export * from "./event_waitlist";
+export * from "./event_roles";
+export * from "./event_invite_links";
+export * from "./ticket_types";
+export * from "./ticket_orders";
 export * from "./groups";
 export * from "./group_members";
 export * from "./event_reviews";
+export * from "./event_comments";
 export * from "./follows";
 export * from "./notifications";
 export * from "./verification_requests";
@@ -0,0 +1,56 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  integer,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+import { ticketTypes } from "./ticket_types";
+
+// One ticket per order, bought by the user who will attend
+export const ticketOrders = pgTable(
+  "ticket_orders",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    eventId: uuid("event_id")
+      .notNull()
+      .references(() => events.id),
+    ticketTypeId: uuid("ticket_type_id")
+      .notNull()
+      .references(() => ticketTypes.id),
+    amountCents: integer("amount_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, completed, failed, refunding, refunded
+    paymentProvider: varchar("payment_provider", { length: 50 }),
+    paymentId: varchar("payment_id", { length: 255 }),
+    failureReason: varchar("failure_reason", { length: 255 }),
+    // Pending orders past this point are failed by the next reservation
+    expiresAt: timestamp("expires_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    completedAt: timestamp("completed_at"),
+    refundedAt: timestamp("refunded_at"),
+  },
+  (table) => ({
+    eventIdx: index("ticket_orders_event_id_idx").on(table.eventId),
+    userIdx: index("ticket_orders_user_id_idx").on(table.userId),
+  })
+);
+
+export const ticketOrdersRelations = relations(ticketOrders, ({ one }) => ({
+  user: one(users, { fields: [ticketOrders.userId], references: [users.id] }),
+  event: one(events, {
+    fields: [ticketOrders.eventId],
+    references: [events.id],
+  }),
+  ticketType: one(ticketTypes, {
+    fields: [ticketOrders.ticketTypeId],
+    references: [ticketTypes.id],
+  }),
+}));
@@ -0,0 +1,36 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { events } from "./events";
+import { ticketOrders } from "./ticket_orders";
+
+export const ticketTypes = pgTable("ticket_types", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  eventId: uuid("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  priceCents: integer("price_cents").notNull(), // 0 for free tickets
+  currency: varchar("currency", { length: 3 }).notNull(), // ISO 4217
+  quantity: integer("quantity").notNull(),
+  // Tickets held by pending and completed orders
+  quantitySold: integer("quantity_sold").notNull().default(0),
+  salesStartAt: timestamp("sales_start_at", { withTimezone: true }),
+  salesEndAt: timestamp("sales_end_at", { withTimezone: true }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ticketTypesRelations = relations(ticketTypes, ({ one, many }) => ({
+  event: one(events, {
+    fields: [ticketTypes.eventId],
+    references: [events.id],
+  }),
+  orders: many(ticketOrders),
+}));
@@ -0,0 +1,28 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 64 }).notNull(),
+  lastUsedStep: integer("last_used_step"), // rejects replay of an accepted code
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const twoFactorSecretsRelations = relations(
+  twoFactorSecrets,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [twoFactorSecrets.userId],
+      references: [users.id],
+    }),
+  })
+);
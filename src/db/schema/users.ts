@@ -7,9 +7,23 @@ import {
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { accounts } from "./accounts";
+import { credentials } from "./credentials";
+import { sessions } from "./sessions";
+import { authTokens } from "./auth_tokens";
+import { twoFactorSecrets } from "./two_factor_secrets";
+import { recoveryCodes } from "./recovery_codes";
+import { apiKeys } from "./api_keys";
+import { calendarFeeds } from "./calendar_feeds";
 import { events } from "./events";
+import { eventSeries } from "./event_series";
+import { eventImports } from "./event_imports";
+import { venues } from "./venues";
 import { eventParticipants } from "./event_participants";
+import { eventWaitlist } from "./event_waitlist";
+import { eventRoles } from "./event_roles";
+import { ticketOrders } from "./ticket_orders";
 import { eventReviews } from "./event_reviews";
+import { eventComments } from "./event_comments";
 import { follows } from "./follows";
 import { notifications } from "./notifications";
 import { verificationRequests } from "./verification_requests";
@@ -21,14 +35,31 @@ export const users = pgTable("users", {
   image: varchar("image", { length: 500 }),
   username: varchar("username", { length: 50 }).unique(),
   bio: varchar("bio", { length: 500 }),
+  role: varchar("role", { length: 20 }).notNull().default("user"), // user, moderator, admin
+  emailVerifiedAt: timestamp("email_verified_at"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const usersRelations = relations(users, ({ one, many }) => ({
-  account: one(accounts, { fields: [users.id], references: [accounts.userId] }),
+  accounts: many(accounts),
+  credential: one(credentials),
+  sessions: many(sessions),
+  authTokens: many(authTokens),
+  twoFactorSecret: one(twoFactorSecrets),
+  recoveryCodes: many(recoveryCodes),
+  apiKeys: many(apiKeys),
+  calendarFeed: one(calendarFeeds),
   events: many(events),
+  eventSeries: many(eventSeries),
+  eventImports: many(eventImports),
+  venues: many(venues),
   eventParticipants: many(eventParticipants),
+  waitlistEntries: many(eventWaitlist),
+  eventRoles: many(eventRoles, { relationName: "eventRoles" }),
+  ticketOrders: many(ticketOrders),
   reviews: many(eventReviews),
+  eventComments: many(eventComments, { relationName: "eventComments" }),
   followers: many(follows, { relationName: "following" }),
   following: many(follows, { relationName: "followers" }),
   notifications: many(notifications),
@@ -0,0 +1,29 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  doublePrecision,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users";
+import { events } from "./events";
+
+export const venues = pgTable("venues", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 100 }).notNull(),
+  address: varchar("address", { length: 255 }).notNull(),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  capacity: integer("capacity"),
+  accessibility: text("accessibility"), // step-free access, hearing loops, etc.
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const venuesRelations = relations(venues, ({ one, many }) => ({
+  creator: one(users, { fields: [venues.createdBy], references: [users.id] }),
+  events: many(events),
+}));
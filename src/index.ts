@@ -7,6 +7,9 @@ import { auth } from './routes/auth';
 import { social } from './routes/social';
 import { notifications } from './routes/notifications';
 import { verification } from './routes/verification';
+import { venues } from './routes/venues';
+import { orders } from './routes/orders';
+import { logError } from './utils/logger';
 
 const app = new Hono();
 
@@ -31,7 +34,9 @@ app.get('/', (c) => {
       groups: '/api/groups',
       social: '/api/social',
       notifications: '/api/notifications',
-      verification: '/api/verification'
+      verification: '/api/verification',
+      venues: '/api/venues',
+      orders: '/api/orders'
     }
   });
 });
@@ -44,6 +49,8 @@ app.route('/api/groups', groups);
 app.route('/api/social', social);
 app.route('/api/notifications', notifications);
 app.route('/api/verification', verification);
+app.route('/api/venues', venues);
+app.route('/api/orders', orders);
 
 // 404 handler
 app.notFound((c) => {
@@ -56,7 +63,7 @@ app.notFound((c) => {
 
 // Error handler
 app.onError((err, c) => {
-  console.error('Error:', err);
+  logError('Error:', err);
   return c.json({
     success: false,
     error: 'Internal server error',
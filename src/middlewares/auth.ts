@@ -0,0 +1,136 @@
+import { createMiddleware } from "hono/factory";
+import type { Context } from "hono";
+import { getUserById } from "../db/queries/users";
+import { isSessionFamilyActive } from "../db/queries/sessions";
+import { getActiveApiKeyByHash, touchApiKey } from "../db/queries/api_keys";
+import { getBearerToken, verifyAccessToken } from "../utils/jwt";
+import { hasRole } from "../utils/permissions";
+import { API_KEY_PREFIX, hashToken } from "../utils/tokens";
+import type { AuthEnv, Role } from "../types/auth";
+
+// Let API keys authenticate on a router, requiring the matching scope
+export const allowApiKeys = (resource: "events" | "groups") =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const access = c.req.method === "GET" ? "read" : "write";
+    c.set("apiKeyScope", `${resource}:${access}`);
+    await next();
+  });
+
+// Authenticate request carrying an API key
+const authenticateApiKey = async (c: Context<AuthEnv>, key: string) => {
+  const apiKey = await getActiveApiKeyByHash(hashToken(key));
+  if (!apiKey) {
+    return c.json({ success: false, error: "Invalid API key" }, 401);
+  }
+
+  const requiredScope = c.get("apiKeyScope");
+  if (!requiredScope) {
+    return c.json(
+      { success: false, error: "API keys cannot be used for this endpoint" },
+      403
+    );
+  }
+
+  if (!apiKey.scopes.includes(requiredScope)) {
+    return c.json(
+      { success: false, error: `API key is missing scope ${requiredScope}` },
+      403
+    );
+  }
+
+  const user = await getUserById(apiKey.userId);
+  if (!user) {
+    return c.json({ success: false, error: "Invalid API key" }, 401);
+  }
+
+  await touchApiKey(apiKey.id);
+
+  c.set("user", user);
+  c.set("sessionId", undefined);
+  c.set("apiKeyId", apiKey.id);
+};
+
+// Read bearer token or API key sent with the request
+const getRequestToken = (c: Context<AuthEnv>) =>
+  c.req.header("X-API-Key") || getBearerToken(c.req.header("Authorization"));
+
+// Authenticate token and load the acting user onto the context; returns an
+// error response when the token is not valid
+const authenticate = async (c: Context<AuthEnv>, token: string) => {
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return authenticateApiKey(c, token);
+  }
+
+  let userId: string;
+  let sessionId: string | undefined;
+  try {
+    const payload = await verifyAccessToken(token);
+    userId = payload.sub;
+    sessionId = payload.sid;
+  } catch {
+    return c.json({ success: false, error: "Invalid or expired token" }, 401);
+  }
+
+  // Tokens from a logged-out session stop working before they expire
+  if (sessionId && !(await isSessionFamilyActive(sessionId))) {
+    return c.json({ success: false, error: "Invalid or expired token" }, 401);
+  }
+
+  const user = await getUserById(userId);
+  if (!user) {
+    return c.json({ success: false, error: "Invalid or expired token" }, 401);
+  }
+
+  c.set("user", user);
+  c.set("sessionId", sessionId);
+};
+
+// Require a valid bearer token or API key and load the acting user onto the context
+export const requireAuth = createMiddleware<AuthEnv>(async (c, next) => {
+  const token = getRequestToken(c);
+  if (!token) {
+    return c.json({ success: false, error: "Authentication required" }, 401);
+  }
+
+  const failure = await authenticate(c, token);
+  if (failure) return failure;
+
+  await next();
+});
+
+// Load the acting user when credentials are sent; anonymous requests pass
+// through without a user, invalid credentials are still rejected
+export const optionalAuth = createMiddleware<AuthEnv>(async (c, next) => {
+  const token = getRequestToken(c);
+  if (token) {
+    const failure = await authenticate(c, token);
+    if (failure) return failure;
+  }
+
+  await next();
+});
+
+// Require the authenticated user to hold one of the given roles
+export const requireRole = (...roles: Role[]) =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const user = c.get("user");
+    if (!user) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    if (!hasRole(user, ...roles)) {
+      if (user.role === "admin" && !user.twoFactorEnabledAt) {
+        return c.json(
+          {
+            success: false,
+            error: "Two-factor authentication must be enabled for admins",
+          },
+          403
+        );
+      }
+
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    await next();
+  });
@@ -0,0 +1,148 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import {
+  SignJWT,
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  type CryptoKey,
+} from "jose";
+import { users } from "../db/schema";
+import { generateApiKey, hashToken } from "../utils/tokens";
+
+// In-process Postgres with the real migrations, standing in for the pool
+const client = new PGlite();
+const testDb = drizzle(client, { casing: "snake_case" });
+
+mock.module("../db/db", () => ({ db: testDb, pool: client }));
+
+process.env.JWT_SECRET = "test-secret";
+
+const TEST_ISSUER = "https://issuer.test";
+const TEST_AUDIENCE = "localeve-test";
+
+// Loaded once the mock is in place
+let app: { fetch: (request: Request) => Response | Promise<Response> };
+let authQueries: typeof import("../db/queries/auth");
+let apiKeyQueries: typeof import("../db/queries/api_keys");
+let twoFactorQueries: typeof import("../db/queries/two_factor");
+let calendarFeedQueries: typeof import("../db/queries/calendar_feeds");
+
+let signingKey: CryptoKey;
+let userId: string;
+let apiKey: string;
+
+beforeAll(async () => {
+  await migrate(testDb, { migrationsFolder: "drizzle" });
+
+  ({ default: app } = await import("../index"));
+  authQueries = await import("../db/queries/auth");
+  apiKeyQueries = await import("../db/queries/api_keys");
+  twoFactorQueries = await import("../db/queries/two_factor");
+  calendarFeedQueries = await import("../db/queries/calendar_feeds");
+
+  // Provider backed by a local key pair instead of a remote JWKS
+  const { publicKey, privateKey } = await generateKeyPair("RS256");
+  signingKey = privateKey;
+  const { registerOAuthProvider } = await import("../services/oauth");
+  registerOAuthProvider("test", {
+    issuer: TEST_ISSUER,
+    audience: TEST_AUDIENCE,
+    jwks: createLocalJWKSet({
+      keys: [{ ...(await exportJWK(publicKey)), alg: "RS256" }],
+    }),
+  });
+});
+
+beforeEach(async () => {
+  await testDb.execute(sql`truncate table ${users} cascade`);
+
+  // Registered with a password but never verified the address
+  const user = await authQueries.createUserWithPassword(
+    { name: "Squatter", email: "owner@example.com" },
+    "hash"
+  );
+  userId = user.id;
+
+  apiKey = generateApiKey();
+  await apiKeyQueries.createApiKey({
+    userId,
+    name: "Script",
+    prefix: apiKey.slice(0, 10),
+    keyHash: hashToken(apiKey),
+    scopes: ["events:read"],
+  });
+});
+
+const request = (path: string, init: RequestInit = {}) =>
+  app.fetch(new Request(`http://localhost${path}`, init));
+
+const postJson = (path: string, body: unknown) =>
+  request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+// Call an endpoint that accepts API keys with the user's key
+const useApiKey = () =>
+  request("/api/events/drafts", {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+
+describe("POST /api/auth/oauth", () => {
+  test("revokes credentials of an unverified account it takes over", async () => {
+    await twoFactorQueries.savePendingTwoFactorSecret(userId, "SECRET");
+    await twoFactorQueries.enableTwoFactor(userId, ["code-hash"]);
+    await calendarFeedQueries.rotateCalendarFeed(userId, "feed-hash");
+    expect((await useApiKey()).status).toBe(200);
+
+    const idToken = await new SignJWT({
+      email: "owner@example.com",
+      email_verified: true,
+    })
+      .setProtectedHeader({ alg: "RS256" })
+      .setIssuer(TEST_ISSUER)
+      .setAudience(TEST_AUDIENCE)
+      .setSubject("provider-account-1")
+      .setExpirationTime("5m")
+      .sign(signingKey);
+
+    const response = await postJson("/api/auth/oauth", {
+      provider: "test",
+      idToken,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.token).toBeDefined();
+    expect((await useApiKey()).status).toBe(401);
+    expect(await twoFactorQueries.getTwoFactorSecret(userId)).toBeUndefined();
+    expect(
+      await calendarFeedQueries.getCalendarFeedByHash("feed-hash")
+    ).toBeUndefined();
+  });
+});
+
+describe("POST /api/auth/reset-password", () => {
+  test("revokes the user's API keys", async () => {
+    await authQueries.createAuthToken({
+      userId,
+      purpose: "password_reset",
+      tokenHash: hashToken("reset-token"),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    expect((await useApiKey()).status).toBe(200);
+
+    const response = await postJson("/api/auth/reset-password", {
+      token: "reset-token",
+      password: "new-password",
+    });
+
+    expect(response.status).toBe(200);
+    expect((await useApiKey()).status).toBe(401);
+  });
+});
@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
@@ -6,11 +7,141 @@ import {
   createUserAccount,
   getUserWithAccount,
   getUserByProviderAccountId,
+  getUserCredentials,
+  createUserWithPassword,
+  createUserWithAccount,
+  deleteUserCredentials,
+  getUserAccounts,
+  unlinkUserAccount,
+  setUserPassword,
+  consumeAuthToken,
 } from "../db/queries/auth";
-import { createUser, getUserByEmail } from "../db/queries/users";
+import {
+  createSession,
+  getSessionByTokenHash,
+  rotateSession,
+  revokeSessionFamily,
+  revokeUserSessions,
+} from "../db/queries/sessions";
+import {
+  getTwoFactorSecret,
+  savePendingTwoFactorSecret,
+  claimTotpStep,
+  enableTwoFactor,
+  disableTwoFactor,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+} from "../db/queries/two_factor";
+import {
+  createApiKey,
+  getUserApiKeys,
+  revokeApiKey,
+  revokeUserApiKeys,
+} from "../db/queries/api_keys";
+import {
+  rotateCalendarFeed,
+  deleteCalendarFeed,
+} from "../db/queries/calendar_feeds";
+import {
+  getUserByEmail,
+  getUserById,
+  markUserEmailVerified,
+} from "../db/queries/users";
+import { requireAuth } from "../middlewares/auth";
+import {
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "../services/auth_emails";
+import { isOAuthProviderConfigured, verifyIdToken } from "../services/oauth";
+import {
+  signAccessToken,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} from "../utils/jwt";
+import { hashPassword, verifyPassword } from "../utils/password";
+import { generateApiKey, generateToken, hashToken } from "../utils/tokens";
+import {
+  generateTotpSecret,
+  getTotpUri,
+  verifyTotp,
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+} from "../utils/totp";
+import { logError } from "../utils/logger";
+import { API_KEY_SCOPES, type AuthUser } from "../types/auth";
 
 const auth = new Hono();
 
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+const getRefreshTokenExpiry = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Start a new session family and issue its first token pair
+const startSession = async (userId: string) => {
+  const refreshToken = generateToken();
+  const familyId = randomUUID();
+
+  await createSession({
+    userId,
+    familyId,
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: getRefreshTokenExpiry(),
+  });
+
+  const token = await signAccessToken(userId, familyId);
+
+  return { token, refreshToken };
+};
+
+// Issue tokens, or a 2FA challenge when the user has a second factor
+const beginLogin = async (user: AuthUser) => {
+  if (user.twoFactorEnabledAt) {
+    const challengeToken = await signTwoFactorChallenge(user.id);
+
+    return { twoFactorRequired: true as const, challengeToken };
+  }
+
+  const { token, refreshToken } = await startSession(user.id);
+
+  return { user, token, refreshToken };
+};
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Generate recovery codes and the hashes to store for them
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    generateRecoveryCode()
+  );
+  const hashes = codes.map((code) => hashToken(normalizeRecoveryCode(code)));
+
+  return { codes, hashes };
+};
+
+// Check TOTP code or single-use recovery code of user with 2FA enabled
+const verifySecondFactor = async (
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+) => {
+  if (input.code) {
+    const secret = await getTwoFactorSecret(userId);
+    if (!secret) return false;
+
+    const step = verifyTotp(secret.secret, input.code);
+    return step !== null && (await claimTotpStep(userId, step));
+  }
+
+  if (input.recoveryCode) {
+    return consumeRecoveryCode(
+      userId,
+      hashToken(normalizeRecoveryCode(input.recoveryCode))
+    );
+  }
+
+  return false;
+};
+
 // Validation schemas
 const loginSchema = z.object({
   email: z.string().email(),
@@ -25,11 +156,63 @@ const registerSchema = z.object({
   bio: z.string().max(500).optional(),
 });
 
-const oauthSchema = z.object({
+const totpCodeSchema = z.string().regex(/^\d{6}$/);
+
+const secondFactorFields = {
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().min(1).optional(),
+};
+
+const hasSecondFactor = (data: { code?: string; recoveryCode?: string }) =>
+  !!(data.code || data.recoveryCode);
+
+const loginTwoFactorSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    ...secondFactorFields,
+  })
+  .refine(hasSecondFactor, { message: "code or recoveryCode is required" });
+
+const secondFactorSchema = z
+  .object(secondFactorFields)
+  .refine(hasSecondFactor, { message: "code or recoveryCode is required" });
+
+const confirmTwoFactorSchema = z.object({
+  code: totpCodeSchema,
+});
+
+const linkAccountSchema = z.object({
   provider: z.string().min(1),
-  providerAccountId: z.string().min(1),
+  idToken: z.string().min(1),
+});
+
+const createApiKeySchema = z.object({
   name: z.string().min(1).max(100),
-  email: z.string().email().max(255),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const oauthSchema = z.object({
+  provider: z.string().min(1),
+  idToken: z.string().min(1),
+  // Profile hints for providers that only share them with the client
+  name: z.string().min(1).max(100).optional(),
   image: z.string().url().max(500).optional(),
 });
 
@@ -44,13 +227,68 @@ auth.post("/login", zValidator("json", loginSchema), async (c) => {
       return c.json({ success: false, error: "Invalid credentials" }, 401);
     }
 
-    // In a real app, you would verify the password here
-    // For now, we'll just return the user
+    // Accounts created through OAuth have no password to check against
+    const credential = await getUserCredentials(user.id);
+    if (!credential) {
+      return c.json({ success: false, error: "Invalid credentials" }, 401);
+    }
+
+    const validPassword = await verifyPassword(
+      password,
+      credential.passwordHash
+    );
+    if (!validPassword) {
+      return c.json({ success: false, error: "Invalid credentials" }, 401);
+    }
+
+    return c.json({
+      success: true,
+      data: await beginLogin(user),
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Login failed" }, 500);
+  }
+});
+
+// POST /auth/login/2fa - Complete login with TOTP or recovery code
+auth.post("/login/2fa", zValidator("json", loginTwoFactorSchema), async (c) => {
+  try {
+    const { challengeToken, code, recoveryCode } = c.req.valid("json");
+
+    let userId: string;
+    try {
+      userId = await verifyTwoFactorChallenge(challengeToken);
+    } catch {
+      return c.json(
+        { success: false, error: "Invalid or expired challenge" },
+        401
+      );
+    }
+
+    const valid = await verifySecondFactor(userId, { code, recoveryCode });
+    if (!valid) {
+      return c.json(
+        { success: false, error: "Invalid authentication code" },
+        401
+      );
+    }
+
+    const user = await getUserById(userId);
+    if (!user) {
+      return c.json(
+        { success: false, error: "Invalid or expired challenge" },
+        401
+      );
+    }
+
+    const { token, refreshToken } = await startSession(user.id);
+
     return c.json({
       success: true,
       data: {
         user,
-        token: "mock-jwt-token", // In real app, generate JWT
+        token,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -69,20 +307,33 @@ auth.post("/register", zValidator("json", registerSchema), async (c) => {
       return c.json({ success: false, error: "Email already exists" }, 400);
     }
 
-    // Create user (without password for now - you'd hash it in real app)
-    const user = await createUser({
-      name: userData.name,
-      email: userData.email,
-      username: userData.username,
-      bio: userData.bio,
-    });
+    const passwordHash = await hashPassword(userData.password);
+    const user = await createUserWithPassword(
+      {
+        name: userData.name,
+        email: userData.email,
+        username: userData.username,
+        bio: userData.bio,
+      },
+      passwordHash
+    );
+
+    // A mail outage should not fail the registration itself
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      logError("Failed to send verification email:", error);
+    }
+
+    const { token, refreshToken } = await startSession(user.id);
 
     return c.json(
       {
         success: true,
         data: {
           user,
-          token: "mock-jwt-token", // In real app, generate JWT
+          token,
+          refreshToken,
         },
       },
       201
@@ -92,66 +343,105 @@ auth.post("/register", zValidator("json", registerSchema), async (c) => {
   }
 });
 
-// POST /auth/oauth - OAuth login/registration
+// POST /auth/oauth - OAuth login/registration with a provider ID token
 auth.post("/oauth", zValidator("json", oauthSchema), async (c) => {
   try {
     const oauthData = c.req.valid("json");
 
+    if (!isOAuthProviderConfigured(oauthData.provider)) {
+      return c.json({ success: false, error: "Unsupported provider" }, 400);
+    }
+
+    const identity = await verifyIdToken(oauthData.provider, oauthData.idToken);
+    if (!identity) {
+      return c.json({ success: false, error: "Invalid ID token" }, 401);
+    }
+
     // Check if user exists with this provider account
     const existingUserWithAccount = await getUserByProviderAccountId(
       oauthData.provider,
-      oauthData.providerAccountId
+      identity.providerAccountId
     );
 
     if (existingUserWithAccount) {
       return c.json({
         success: true,
-        data: {
-          user: existingUserWithAccount.user,
-          token: "mock-jwt-token",
-        },
+        data: await beginLogin(existingUserWithAccount.user),
       });
     }
 
+    if (!identity.email) {
+      return c.json(
+        { success: false, error: "Provider did not supply an email address" },
+        400
+      );
+    }
+
     // Check if user exists with this email
-    const existingUser = await getUserByEmail(oauthData.email);
+    const existingUser = await getUserByEmail(identity.email);
 
     if (existingUser) {
+      // Only link when the provider vouches for the address
+      if (!identity.emailVerified) {
+        return c.json(
+          {
+            success: false,
+            error:
+              "An account with this email already exists. Sign in and link the provider instead",
+          },
+          409
+        );
+      }
+
       // Link existing account to OAuth provider
       await createUserAccount({
         userId: existingUser.id,
         provider: oauthData.provider,
-        providerAccountId: oauthData.providerAccountId,
+        providerAccountId: identity.providerAccountId,
       });
 
+      // Nobody proved they owned this address before, so a password set at
+      // registration may belong to someone else; drop it along with every
+      // credential issued through it
+      if (!existingUser.emailVerifiedAt) {
+        await deleteUserCredentials(existingUser.id);
+        await revokeUserSessions(existingUser.id);
+        await revokeUserApiKeys(existingUser.id);
+        await deleteCalendarFeed(existingUser.id);
+        await disableTwoFactor(existingUser.id);
+      }
+
+      const user = await markUserEmailVerified(existingUser.id);
+
       return c.json({
         success: true,
-        data: {
-          user: existingUser,
-          token: "mock-jwt-token",
-        },
+        data: await beginLogin(user),
       });
     }
 
     // Create new user and account
-    const user = await createUser({
-      name: oauthData.name,
-      email: oauthData.email,
-      image: oauthData.image,
-    });
+    const user = await createUserWithAccount(
+      {
+        name: identity.name || oauthData.name || identity.email,
+        email: identity.email,
+        image: identity.image || oauthData.image,
+        emailVerifiedAt: identity.emailVerified ? new Date() : undefined,
+      },
+      {
+        provider: oauthData.provider,
+        providerAccountId: identity.providerAccountId,
+      }
+    );
 
-    await createUserAccount({
-      userId: user.id,
-      provider: oauthData.provider,
-      providerAccountId: oauthData.providerAccountId,
-    });
+    const { token, refreshToken } = await startSession(user.id);
 
     return c.json(
       {
         success: true,
         data: {
           user,
-          token: "mock-jwt-token",
+          token,
+          refreshToken,
         },
       },
       201
@@ -165,25 +455,71 @@ auth.post("/oauth", zValidator("json", oauthSchema), async (c) => {
 });
 
 // GET /auth/me - Get current user
-auth.get("/me", async (c) => {
+auth.get("/me", requireAuth, async (c) => {
+  try {
+    return c.json({
+      success: true,
+      data: c.get("user"),
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to get current user" }, 500);
+  }
+});
+
+// POST /auth/refresh - Exchange refresh token for a new token pair
+auth.post("/refresh", zValidator("json", refreshSchema), async (c) => {
   try {
-    // In a real app, you'd get the user from JWT token
-    // For now, we'll return a mock response
+    const { refreshToken } = c.req.valid("json");
+
+    const session = await getSessionByTokenHash(hashToken(refreshToken));
+    if (!session) {
+      return c.json({ success: false, error: "Invalid refresh token" }, 401);
+    }
+
+    // A rotated token being presented again means it leaked; kill the family
+    if (session.revokedAt) {
+      await revokeSessionFamily(session.familyId);
+      return c.json({ success: false, error: "Invalid refresh token" }, 401);
+    }
+
+    if (session.expiresAt <= new Date()) {
+      return c.json({ success: false, error: "Refresh token expired" }, 401);
+    }
+
+    const nextRefreshToken = generateToken();
+    const nextSession = await rotateSession(session.id, {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      expiresAt: getRefreshTokenExpiry(),
+    });
+
+    // Lost a race with another refresh of the same token
+    if (!nextSession) {
+      await revokeSessionFamily(session.familyId);
+      return c.json({ success: false, error: "Invalid refresh token" }, 401);
+    }
+
+    const token = await signAccessToken(session.userId, session.familyId);
+
     return c.json({
       success: true,
       data: {
-        message: "Get user from JWT token",
+        token,
+        refreshToken: nextRefreshToken,
       },
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to get current user" }, 500);
+    return c.json({ success: false, error: "Token refresh failed" }, 500);
   }
 });
 
-// POST /auth/logout - User logout
-auth.post("/logout", async (c) => {
+// POST /auth/logout - Revoke current session
+auth.post("/logout", requireAuth, async (c) => {
   try {
-    // In a real app, you'd invalidate the JWT token
+    const sessionId = c.get("sessionId");
+    if (sessionId) {
+      await revokeSessionFamily(sessionId);
+    }
+
     return c.json({
       success: true,
       message: "Logged out successfully",
@@ -193,4 +529,534 @@ auth.post("/logout", async (c) => {
   }
 });
 
+// POST /auth/logout-all - Revoke every session of current user
+auth.post("/logout-all", requireAuth, async (c) => {
+  try {
+    const revokedSessions = await revokeUserSessions(c.get("user").id);
+
+    return c.json({
+      success: true,
+      data: { revoked: revokedSessions.length },
+      message: "Logged out of all devices",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Logout failed" }, 500);
+  }
+});
+
+// POST /auth/forgot-password - Email a password reset link
+auth.post(
+  "/forgot-password",
+  zValidator("json", forgotPasswordSchema),
+  async (c) => {
+    try {
+      const { email } = c.req.valid("json");
+
+      // Respond the same way whether or not the account exists
+      const user = await getUserByEmail(email);
+      if (user) {
+        try {
+          await sendPasswordResetEmail(user);
+        } catch (error) {
+          logError("Failed to send password reset email:", error);
+        }
+      }
+
+      return c.json({
+        success: true,
+        message: "If an account exists for this email, a reset link was sent",
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to request password reset" },
+        500
+      );
+    }
+  }
+);
+
+// POST /auth/reset-password - Set new password using reset token
+auth.post(
+  "/reset-password",
+  zValidator("json", resetPasswordSchema),
+  async (c) => {
+    try {
+      const { token, password } = c.req.valid("json");
+
+      const resetToken = await consumeAuthToken(
+        hashToken(token),
+        "password_reset"
+      );
+      if (!resetToken) {
+        return c.json(
+          { success: false, error: "Invalid or expired reset token" },
+          400
+        );
+      }
+
+      const passwordHash = await hashPassword(password);
+      await setUserPassword(resetToken.userId, passwordHash);
+
+      // Sessions and API keys issued with the old password must not survive
+      // the reset
+      await revokeUserSessions(resetToken.userId);
+      await revokeUserApiKeys(resetToken.userId);
+
+      return c.json({
+        success: true,
+        message: "Password reset successfully",
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Password reset failed" }, 500);
+    }
+  }
+);
+
+// POST /auth/verify-email - Confirm email address using verification token
+auth.post("/verify-email", zValidator("json", verifyEmailSchema), async (c) => {
+  try {
+    const { token } = c.req.valid("json");
+
+    const verificationToken = await consumeAuthToken(
+      hashToken(token),
+      "email_verification"
+    );
+    if (!verificationToken) {
+      return c.json(
+        { success: false, error: "Invalid or expired verification token" },
+        400
+      );
+    }
+
+    const user = await markUserEmailVerified(verificationToken.userId);
+
+    return c.json({
+      success: true,
+      data: user,
+      message: "Email verified successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Email verification failed" }, 500);
+  }
+});
+
+// POST /auth/resend-verification - Send a new verification email
+auth.post("/resend-verification", requireAuth, async (c) => {
+  try {
+    const user = c.get("user");
+
+    if (user.emailVerifiedAt) {
+      return c.json({ success: false, error: "Email already verified" }, 400);
+    }
+
+    await sendVerificationEmail(user);
+
+    return c.json({
+      success: true,
+      message: "Verification email sent",
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to send verification email" },
+      500
+    );
+  }
+});
+
+// GET /auth/accounts - List login methods of current user
+auth.get("/accounts", requireAuth, async (c) => {
+  try {
+    const userId = c.get("user").id;
+    const accounts = await getUserAccounts(userId);
+    const credential = await getUserCredentials(userId);
+
+    return c.json({
+      success: true,
+      data: {
+        accounts,
+        hasPassword: !!credential,
+      },
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch accounts" }, 500);
+  }
+});
+
+// POST /auth/accounts - Link provider account to current user
+auth.post(
+  "/accounts",
+  requireAuth,
+  zValidator("json", linkAccountSchema),
+  async (c) => {
+    try {
+      const { provider, idToken } = c.req.valid("json");
+      const userId = c.get("user").id;
+
+      if (!isOAuthProviderConfigured(provider)) {
+        return c.json({ success: false, error: "Unsupported provider" }, 400);
+      }
+
+      const identity = await verifyIdToken(provider, idToken);
+      if (!identity) {
+        return c.json({ success: false, error: "Invalid ID token" }, 401);
+      }
+
+      const existing = await getUserByProviderAccountId(
+        provider,
+        identity.providerAccountId
+      );
+      if (existing) {
+        if (existing.user.id === userId) {
+          return c.json(
+            { success: false, error: "Account already linked" },
+            400
+          );
+        }
+
+        return c.json(
+          {
+            success: false,
+            error: "Account is already linked to another user",
+          },
+          409
+        );
+      }
+
+      const account = await createUserAccount({
+        userId,
+        provider,
+        providerAccountId: identity.providerAccountId,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: account,
+          message: "Account linked successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to link account" }, 500);
+    }
+  }
+);
+
+// DELETE /auth/accounts/:id - Unlink provider account from current user
+auth.delete("/accounts/:id", requireAuth, async (c) => {
+  try {
+    const accountId = c.req.param("id");
+    const result = await unlinkUserAccount(c.get("user").id, accountId);
+
+    if (result.status === "not_found") {
+      return c.json({ success: false, error: "Account not found" }, 404);
+    }
+
+    if (result.status === "last_method") {
+      return c.json(
+        { success: false, error: "Cannot unlink the last login method" },
+        400
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.account,
+      message: "Account unlinked successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to unlink account" }, 500);
+  }
+});
+
+// GET /auth/api-keys - List API keys of current user
+auth.get("/api-keys", requireAuth, async (c) => {
+  try {
+    const apiKeys = await getUserApiKeys(c.get("user").id);
+
+    return c.json({
+      success: true,
+      data: apiKeys,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch API keys" }, 500);
+  }
+});
+
+// POST /auth/api-keys - Create API key for current user
+auth.post(
+  "/api-keys",
+  requireAuth,
+  zValidator("json", createApiKeySchema),
+  async (c) => {
+    try {
+      const { name, scopes } = c.req.valid("json");
+      const key = generateApiKey();
+
+      const apiKey = await createApiKey({
+        userId: c.get("user").id,
+        name,
+        prefix: key.slice(0, 10),
+        keyHash: hashToken(key),
+        scopes: Array.from(new Set(scopes)),
+      });
+
+      // The key itself is only ever shown in this response
+      return c.json(
+        {
+          success: true,
+          data: { ...apiKey, key },
+          message: "API key created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to create API key" }, 500);
+    }
+  }
+);
+
+// DELETE /auth/api-keys/:id - Revoke API key of current user
+auth.delete("/api-keys/:id", requireAuth, async (c) => {
+  try {
+    const apiKey = await revokeApiKey(c.get("user").id, c.req.param("id"));
+
+    if (!apiKey) {
+      return c.json({ success: false, error: "API key not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: apiKey,
+      message: "API key revoked successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to revoke API key" }, 500);
+  }
+});
+
+// POST /auth/calendar-feed - Create or rotate current user's calendar feed URL
+auth.post("/calendar-feed", requireAuth, async (c) => {
+  try {
+    const token = generateToken();
+    const feed = await rotateCalendarFeed(c.get("user").id, hashToken(token));
+    const url = `${new URL(c.req.url).origin}/api/users/calendar/${token}.ics`;
+
+    // The URL is the credential, so it is only ever shown in this response
+    return c.json(
+      {
+        success: true,
+        data: { ...feed, url },
+        message: "Calendar feed created, any previous feed URL stopped working",
+      },
+      201
+    );
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to create calendar feed" },
+      500
+    );
+  }
+});
+
+// DELETE /auth/calendar-feed - Disable current user's calendar feed URL
+auth.delete("/calendar-feed", requireAuth, async (c) => {
+  try {
+    const feed = await deleteCalendarFeed(c.get("user").id);
+
+    if (!feed) {
+      return c.json({ success: false, error: "Calendar feed not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: feed,
+      message: "Calendar feed disabled successfully",
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to disable calendar feed" },
+      500
+    );
+  }
+});
+
+// POST /auth/2fa/setup - Start TOTP enrollment
+auth.post("/2fa/setup", requireAuth, async (c) => {
+  try {
+    const user = c.get("user");
+
+    if (user.twoFactorEnabledAt) {
+      return c.json(
+        { success: false, error: "Two-factor authentication already enabled" },
+        400
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await savePendingTwoFactorSecret(user.id, secret);
+
+    return c.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: getTotpUri(secret, user.email),
+      },
+      message:
+        "Scan the code and confirm it to enable two-factor authentication",
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to start two-factor setup" },
+      500
+    );
+  }
+});
+
+// POST /auth/2fa/confirm - Confirm TOTP enrollment and get recovery codes
+auth.post(
+  "/2fa/confirm",
+  requireAuth,
+  zValidator("json", confirmTwoFactorSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { code } = c.req.valid("json");
+
+      if (user.twoFactorEnabledAt) {
+        return c.json(
+          {
+            success: false,
+            error: "Two-factor authentication already enabled",
+          },
+          400
+        );
+      }
+
+      const secret = await getTwoFactorSecret(user.id);
+      if (!secret) {
+        return c.json(
+          { success: false, error: "Two-factor setup not started" },
+          400
+        );
+      }
+
+      const step = verifyTotp(secret.secret, code);
+      if (step === null || !(await claimTotpStep(user.id, step))) {
+        return c.json(
+          { success: false, error: "Invalid authentication code" },
+          400
+        );
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await enableTwoFactor(user.id, hashes);
+
+      return c.json({
+        success: true,
+        data: { recoveryCodes: codes },
+        message: "Two-factor authentication enabled",
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to enable two-factor authentication" },
+        500
+      );
+    }
+  }
+);
+
+// POST /auth/2fa/recovery-codes - Replace recovery codes
+auth.post(
+  "/2fa/recovery-codes",
+  requireAuth,
+  zValidator("json", secondFactorSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+
+      if (!user.twoFactorEnabledAt) {
+        return c.json(
+          { success: false, error: "Two-factor authentication not enabled" },
+          400
+        );
+      }
+
+      const valid = await verifySecondFactor(user.id, c.req.valid("json"));
+      if (!valid) {
+        return c.json(
+          { success: false, error: "Invalid authentication code" },
+          401
+        );
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await replaceRecoveryCodes(user.id, hashes);
+
+      return c.json({
+        success: true,
+        data: { recoveryCodes: codes },
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to regenerate recovery codes" },
+        500
+      );
+    }
+  }
+);
+
+// POST /auth/2fa/disable - Turn off two-factor authentication
+auth.post(
+  "/2fa/disable",
+  requireAuth,
+  zValidator("json", secondFactorSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+
+      if (!user.twoFactorEnabledAt) {
+        return c.json(
+          { success: false, error: "Two-factor authentication not enabled" },
+          400
+        );
+      }
+
+      if (user.role === "admin") {
+        return c.json(
+          {
+            success: false,
+            error: "Admins must keep two-factor authentication enabled",
+          },
+          403
+        );
+      }
+
+      const valid = await verifySecondFactor(user.id, c.req.valid("json"));
+      if (!valid) {
+        return c.json(
+          { success: false, error: "Invalid authentication code" },
+          401
+        );
+      }
+
+      const updatedUser = await disableTwoFactor(user.id);
+
+      return c.json({
+        success: true,
+        data: updatedUser,
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error) {
+      return c.json(
+        {
+          success: false,
+          error: "Failed to disable two-factor authentication",
+        },
+        500
+      );
+    }
+  }
+);
+
 export { auth };
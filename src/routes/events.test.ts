@@ -0,0 +1,145 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { eq, sql } from "drizzle-orm";
+import { ticketOrders, users } from "../db/schema";
+
+// In-process Postgres with the real migrations, standing in for the pool
+const client = new PGlite();
+const testDb = drizzle(client, { casing: "snake_case" });
+
+mock.module("../db/db", () => ({ db: testDb, pool: client }));
+
+process.env.JWT_SECRET = "test-secret";
+
+// Loaded once the mock is in place
+let app: { fetch: (request: Request) => Response | Promise<Response> };
+let payments: typeof import("../services/payments");
+let eventQueries: typeof import("../db/queries/events");
+let ticketQueries: typeof import("../db/queries/tickets");
+let signAccessToken: typeof import("../utils/jwt").signAccessToken;
+
+let provider: ReturnType<
+  typeof import("../services/payments").createFakePaymentProvider
+>;
+let organizerToken: string;
+let buyerToken: string;
+let eventId: string;
+let ticketTypeId: string;
+
+beforeAll(async () => {
+  await migrate(testDb, { migrationsFolder: "drizzle" });
+
+  ({ default: app } = await import("../index"));
+  payments = await import("../services/payments");
+  eventQueries = await import("../db/queries/events");
+  ticketQueries = await import("../db/queries/tickets");
+  ({ signAccessToken } = await import("../utils/jwt"));
+});
+
+beforeEach(async () => {
+  await testDb.execute(sql`truncate table ${users} cascade`);
+
+  provider = payments.createFakePaymentProvider();
+  payments.setPaymentProvider(provider);
+
+  const [organizer, buyer] = await testDb
+    .insert(users)
+    .values([
+      { name: "Organizer", email: "organizer@example.com" },
+      { name: "Buyer", email: "buyer@example.com" },
+    ])
+    .returning();
+  organizerToken = await signAccessToken(organizer.id);
+  buyerToken = await signAccessToken(buyer.id);
+
+  const event = await eventQueries.createEvent({
+    title: "Concert",
+    description: "Live music",
+    date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    organizerId: organizer.id,
+    status: "published",
+  });
+  eventId = event.id;
+
+  const ticketType = await ticketQueries.createTicketType({
+    eventId,
+    name: "General admission",
+    priceCents: 2500,
+    currency: "EUR",
+    quantity: 10,
+  });
+  ticketTypeId = ticketType.id;
+});
+
+const request = (method: string, path: string, token: string, body?: unknown) =>
+  app.fetch(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  );
+
+// Buy a ticket as the buyer and return the completed order
+const buyTicket = async () => {
+  const response = await request("POST", "/api/orders", buyerToken, {
+    ticketTypeId,
+  });
+  expect(response.status).toBe(201);
+
+  return (await response.json()).data as {
+    id: string;
+    paymentId: string;
+  };
+};
+
+const cancelEvent = () =>
+  request("PUT", `/api/events/${eventId}/status`, organizerToken, {
+    status: "cancelled",
+  });
+
+const getOrderStatus = async (orderId: string) => {
+  const [order] = await testDb
+    .select({ status: ticketOrders.status })
+    .from(ticketOrders)
+    .where(eq(ticketOrders.id, orderId));
+
+  return order.status;
+};
+
+describe("PUT /api/events/:id/status", () => {
+  test("refunds completed orders when the event is cancelled", async () => {
+    const order = await buyTicket();
+
+    const response = await cancelEvent();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.failedRefunds).toBeUndefined();
+    expect(await getOrderStatus(order.id)).toBe("refunded");
+    expect(provider.payments.get(order.paymentId)?.refundedCents).toBe(2500);
+  });
+
+  test("lists orders whose refund failed and keeps them completed", async () => {
+    const order = await buyTicket();
+    payments.setPaymentProvider({
+      ...provider,
+      async refund() {
+        throw new Error("Provider down");
+      },
+    });
+
+    const response = await cancelEvent();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.status).toBe("cancelled");
+    expect(body.failedRefunds).toEqual([order.id]);
+    expect(await getOrderStatus(order.id)).toBe("completed");
+  });
+});
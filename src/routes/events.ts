@@ -10,37 +10,370 @@ import {
   searchEvents,
   getUpcomingEvents,
   getEventsByLocation,
+  getNearbyEvents,
+  getEventsInBounds,
   getEventsByInterest,
   searchEventsByInterests,
   joinEvent,
+  updateRsvp,
+  inviteToEvent,
+  getParticipationStatus,
   leaveEvent,
-  isUserParticipating,
+  promoteWaitlistedUsers,
+  getEventWaitlist,
   getEventParticipants,
   addEventReview,
   getEventReviews,
   getEventsByOrganizer,
+  hasOrganizerEvent,
+  updateEventStatus,
+  getOrganizerDrafts,
+  getEventAudience,
+  checkInParticipant,
+  getAttendanceSummary,
+  getEventAttendance,
 } from "../db/queries/events";
+import {
+  createEventSeries,
+  getEventSeriesById,
+  updateAllOccurrences,
+  updateFollowingOccurrences,
+} from "../db/queries/event_series";
+import {
+  createEventImport,
+  getEventImportById,
+  getUserEventImports,
+} from "../db/queries/event_imports";
+import {
+  createTicketType,
+  getEventTicketTypes,
+  getTicketTypeById,
+  updateTicketType,
+  deleteTicketType,
+  hasTicketTypes,
+  hasEventOrders,
+  hasCompletedOrder,
+  getEventOrders,
+  getCompletedEventOrderIds,
+} from "../db/queries/tickets";
+import {
+  inviteEventRole,
+  acceptEventRole,
+  updateEventRole,
+  removeEventRole,
+  getEventRole,
+  getEventHosts,
+  getUserRoleInvitations,
+} from "../db/queries/event_roles";
+import {
+  createInviteLink,
+  getEventInviteLinks,
+  getInviteLinkByHash,
+  revokeInviteLink,
+  redeemInviteLink,
+} from "../db/queries/event_invite_links";
+import {
+  createComment,
+  getCommentById,
+  getEventComments,
+  getPinnedComments,
+  editComment,
+  deleteComment,
+  setCommentPinned,
+  getCommentEdits,
+} from "../db/queries/event_comments";
+import { getVenueById } from "../db/queries/venues";
+import { getGroupById, isUserMember } from "../db/queries/groups";
+import { createNotification } from "../db/queries/notifications";
+import { getUserById, getUsersByUsernames } from "../db/queries/users";
+import { allowApiKeys, optionalAuth, requireAuth } from "../middlewares/auth";
+import { refundTicketOrder } from "../services/refunds";
+import { canManage } from "../utils/permissions";
+import { generateToken, hashToken } from "../utils/tokens";
+import {
+  RECURRENCE_FREQUENCIES,
+  MAX_SERIES_OCCURRENCES,
+  expandRecurrence,
+} from "../utils/recurrence";
+import { isValidTimeZone } from "../utils/timezone";
+import { createCheckInCode, verifyCheckInCode } from "../utils/check_in";
+import { decodeCursor } from "../utils/cursor";
+import { parseMentions } from "../utils/mentions";
+import { ICAL_CONTENT_TYPE, buildCalendar } from "../utils/ical";
+import {
+  IMPORT_FORMATS,
+  MAX_IMPORT_ROWS,
+  detectImportFormat,
+  parseImportFile,
+  type ImportRow,
+} from "../utils/event_import";
+import {
+  RSVP_STATUSES,
+  EVENT_STATUS_TRANSITIONS,
+  EVENT_ROLES,
+  EVENT_ROLE_PERMISSIONS,
+  EVENT_VISIBILITIES,
+  type EventStatus,
+  type EventRole,
+  type EventPermission,
+  type EventVisibility,
+} from "../types/events";
+import type { AuthUser } from "../types/auth";
+import type { EventImportRowResult } from "../db/schema";
 
 const events = new Hono();
 
+// Fill in location and coordinates left out by the organizer from the venue
+const withVenueDefaults = async <
+  T extends {
+    venueId?: string | null;
+    location?: string;
+    latitude?: number | null;
+    longitude?: number | null;
+  },
+>(
+  eventData: T
+) => {
+  if (!eventData.venueId) return eventData;
+
+  const venue = await getVenueById(eventData.venueId);
+  if (!venue) return null;
+
+  const useVenueCoordinates =
+    eventData.latitude === undefined && venue.latitude !== null;
+
+  return {
+    ...eventData,
+    location:
+      eventData.location ?? `${venue.name}, ${venue.address}`.slice(0, 255),
+    latitude: useVenueCoordinates ? venue.latitude : eventData.latitude,
+    longitude: useVenueCoordinates ? venue.longitude : eventData.longitude,
+  };
+};
+
+// Events can be posted to groups the organizer created or belongs to
+const canPostToGroup = async (userId: string, groupId: string) => {
+  const group = await getGroupById(groupId);
+  if (!group) return false;
+
+  return group.group.createdBy === userId || isUserMember(userId, groupId);
+};
+
+// Organizer and moderators manage everything; accepted hosts only what
+// their role allows
+const canManageEvent = async (
+  user: AuthUser,
+  event: { id: string; organizerId: string | null },
+  permission?: EventPermission
+) => {
+  if (canManage(user, event.organizerId)) return true;
+  if (!permission) return false;
+
+  const eventRole = await getEventRole(event.id, user.id);
+  return (
+    eventRole?.status === "accepted" &&
+    EVENT_ROLE_PERMISSIONS[eventRole.role as EventRole].includes(permission)
+  );
+};
+
+// Hosts see their events before publication; everyone else only listed
+// ones, and private ones only when invited or participating
+const canViewEvent = async (
+  user: AuthUser | undefined,
+  event: {
+    id: string;
+    status: EventStatus;
+    visibility: string;
+    organizerId: string | null;
+  }
+) => {
+  const listed = event.status === "published" || event.status === "cancelled";
+  if (listed && event.visibility !== "private") return true;
+  if (!user) return false;
+  if (canManage(user, event.organizerId)) return true;
+
+  const eventRole = await getEventRole(event.id, user.id);
+  if (eventRole?.status === "accepted") return true;
+
+  return listed && (await getParticipationStatus(user.id, event.id)) !== null;
+};
+
+// Invite links are valid for a week unless another expiry is given
+const INVITE_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Tell users promoted from the waitlist that they got a spot
+const notifyPromotedUsers = async (
+  eventTitle: string | null,
+  promoted: { userId: string }[]
+) => {
+  for (const participation of promoted) {
+    await createNotification({
+      userId: participation.userId,
+      content: `A spot opened up and you are now attending "${eventTitle}"`,
+    });
+  }
+};
+
+// Tell users mentioned in a comment about it; mentions already notified for
+// an earlier version of the comment are skipped, as are users who cannot
+// see the event
+const notifyMentionedUsers = async (
+  event: {
+    id: string;
+    title: string | null;
+    status: EventStatus;
+    visibility: string;
+    organizerId: string | null;
+  },
+  author: AuthUser,
+  body: string,
+  previousBody?: string
+) => {
+  const notified = previousBody ? parseMentions(previousBody) : [];
+  const usernames = parseMentions(body).filter(
+    (username) => !notified.includes(username)
+  );
+
+  for (const user of await getUsersByUsernames(usernames)) {
+    if (user.id === author.id || !(await canViewEvent(user, event))) continue;
+
+    await createNotification({
+      userId: user.id,
+      content: `${author.name || "Someone"} mentioned you in a comment on "${event.title}"`,
+    });
+  }
+};
+
+events.use("*", allowApiKeys("events"));
+
 // Validation schemas
-const createEventSchema = z.object({
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+// Coordinates are only meaningful as a pair
+const hasPairedCoordinates = (data: {
+  latitude?: number | null;
+  longitude?: number | null;
+}) => (data.latitude === undefined) === (data.longitude === undefined);
+
+const coordinatesMessage = {
+  message: "latitude and longitude must be given together",
+};
+
+const instantSchema = z.string().datetime({ offset: true });
+
+const timeZoneSchema = z
+  .string()
+  .max(64)
+  .refine(isValidTimeZone, { message: "Invalid IANA time zone" });
+
+const endsAfterStart = (data: { date?: string; endDate?: string | null }) =>
+  !data.date ||
+  !data.endDate ||
+  new Date(data.endDate).getTime() > new Date(data.date).getTime();
+
+const endDateMessage = { message: "endDate must be after date" };
+
+// Free-text location is optional when the event is held at a venue
+const hasLocation = (data: { location?: string; venueId?: string }) =>
+  !!(data.location || data.venueId);
+
+const locationMessage = { message: "location or venueId is required" };
+
+const eventFieldsSchema = z.object({
   title: z.string().min(1).max(100),
   description: z.string().min(1),
-  date: z.string().datetime(),
-  location: z.string().min(1).max(255),
-  organizerId: z.string().uuid(),
-  interests: z.array(z.string()).optional(),
-});
-
-const updateEventSchema = z.object({
-  title: z.string().min(1).max(100).optional(),
-  description: z.string().min(1).optional(),
-  date: z.string().datetime().optional(),
+  date: instantSchema,
+  endDate: instantSchema.optional(),
+  timeZone: timeZoneSchema.optional(),
   location: z.string().min(1).max(255).optional(),
+  latitude: latitudeSchema.optional(),
+  longitude: longitudeSchema.optional(),
+  venueId: z.string().uuid().optional(),
+  groupId: z.string().uuid().optional(),
   interests: z.array(z.string()).optional(),
+  capacity: z.number().int().min(1).optional(),
+  // Defaults to public
+  visibility: z.enum(EVENT_VISIBILITIES).optional(),
 });
 
+// Scheduled publication needs a time in the future, other statuses none
+const hasValidPublishAt = (data: { status?: string; publishAt?: string }) =>
+  data.status === "scheduled"
+    ? !!data.publishAt && new Date(data.publishAt).getTime() > Date.now()
+    : data.publishAt === undefined;
+
+const publishAtMessage = {
+  message: "publishAt must be a future time and is only used with scheduled",
+};
+
+const createEventSchema = eventFieldsSchema
+  .extend({
+    // Defaults to published
+    status: z.enum(["draft", "scheduled", "published"]).optional(),
+    publishAt: instantSchema.optional(),
+  })
+  .refine(hasPairedCoordinates, coordinatesMessage)
+  .refine(hasLocation, locationMessage)
+  .refine(endsAfterStart, endDateMessage)
+  .refine(hasValidPublishAt, publishAtMessage);
+
+const updateEventSchema = z
+  .object({
+    title: z.string().min(1).max(100).optional(),
+    description: z.string().min(1).optional(),
+    date: instantSchema.optional(),
+    // null clears the end time
+    endDate: instantSchema.nullable().optional(),
+    timeZone: timeZoneSchema.optional(),
+    location: z.string().min(1).max(255).optional(),
+    // null clears the coordinates
+    latitude: latitudeSchema.nullable().optional(),
+    longitude: longitudeSchema.nullable().optional(),
+    // null unlinks the venue
+    venueId: z.string().uuid().nullable().optional(),
+    // null removes the event from its group
+    groupId: z.string().uuid().nullable().optional(),
+    interests: z.array(z.string()).optional(),
+    // null removes the limit
+    capacity: z.number().int().min(1).nullable().optional(),
+    visibility: z.enum(EVENT_VISIBILITIES).optional(),
+    // Which occurrences of a series to change; only "this" may move the date
+    scope: z.enum(["this", "following", "all"]).optional(),
+  })
+  .refine(hasPairedCoordinates, coordinatesMessage)
+  .refine(endsAfterStart, endDateMessage);
+
+const statusSchema = z
+  .object({
+    status: z.enum(["draft", "scheduled", "published", "cancelled"]),
+    publishAt: instantSchema.optional(),
+    // Sent to participants when the event is cancelled
+    reason: z.string().min(1).max(500).optional(),
+  })
+  .refine(hasValidPublishAt, publishAtMessage);
+
+const recurrenceSchema = z
+  .object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int().min(1).max(99).optional(),
+    byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
+    until: instantSchema.optional(),
+    count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    exceptions: z.array(instantSchema).optional(),
+  })
+  .refine((rule) => rule.until || rule.count, {
+    message: "until or count is required",
+  });
+
+const createSeriesSchema = eventFieldsSchema
+  .extend({
+    recurrence: recurrenceSchema,
+  })
+  .refine(hasPairedCoordinates, coordinatesMessage)
+  .refine(hasLocation, locationMessage)
+  .refine(endsAfterStart, endDateMessage);
+
 const searchSchema = z.object({
   q: z.string().min(1),
   page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
@@ -60,71 +393,431 @@ const paginationSchema = z.object({
     .optional(),
 });
 
+const nearbySchema = paginationSchema.extend({
+  lat: z.string().transform(Number).pipe(latitudeSchema),
+  lng: z.string().transform(Number).pipe(longitudeSchema),
+  radiusKm: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive().max(500))
+    .optional(),
+});
+
+const boundsSchema = paginationSchema.extend({
+  south: z.string().transform(Number).pipe(latitudeSchema),
+  west: z.string().transform(Number).pipe(longitudeSchema),
+  north: z.string().transform(Number).pipe(latitudeSchema),
+  east: z.string().transform(Number).pipe(longitudeSchema),
+});
+
+const participantsQuerySchema = paginationSchema.extend({
+  status: z.enum(RSVP_STATUSES).optional(),
+});
+
+const rsvpSchema = z.object({
+  status: z.enum(["going", "maybe", "not_going"]),
+});
+
+const invitationSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const roleInvitationSchema = z.object({
+  userId: z.string().uuid(),
+  role: z.enum(EVENT_ROLES),
+});
+
+const roleUpdateSchema = z.object({
+  role: z.enum(EVENT_ROLES),
+});
+
+const inviteLinkSchema = z.object({
+  expiresAt: instantSchema
+    .refine((value) => new Date(value).getTime() > Date.now(), {
+      message: "expiresAt must be in the future",
+    })
+    .optional(),
+  maxUses: z.number().int().min(1).optional(),
+});
+
+const checkInSchema = z.object({
+  code: z.string().min(1).max(255),
+});
+
+const attendanceQuerySchema = paginationSchema.extend({
+  checkedIn: z.enum(["true", "false"]).optional(),
+});
+
 const reviewSchema = z.object({
   rating: z.number().min(1).max(5),
   comment: z.string().min(1),
 });
 
-// GET /events - Get all events with pagination
-events.get("/", zValidator("query", paginationSchema), async (c) => {
-  try {
-    const query = c.req.valid("query");
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const result = await getAllEvents(page, limit);
+const commentBodySchema = z.string().trim().min(1).max(5000);
 
-    return c.json({
-      success: true,
-      data: result.events,
-      pagination: result.pagination,
+const createCommentSchema = z.object({
+  body: commentBodySchema,
+  // Comment being replied to
+  parentId: z.string().uuid().optional(),
+});
+
+const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+const commentsQuerySchema = paginationSchema.pick({ limit: true }).extend({
+  // nextCursor of the previous page
+  cursor: z.string().max(200).optional(),
+  // List replies to this comment instead of top-level comments
+  parentId: z.string().uuid().optional(),
+});
+
+// Sales windows are optional on both ends
+const salesWindowIsValid = (data: {
+  salesStartAt?: string | null;
+  salesEndAt?: string | null;
+}) =>
+  !data.salesStartAt ||
+  !data.salesEndAt ||
+  new Date(data.salesEndAt).getTime() > new Date(data.salesStartAt).getTime();
+
+const salesWindowMessage = { message: "salesEndAt must be after salesStartAt" };
+
+const createTicketTypeSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    // Smallest currency unit; 0 for free tickets
+    priceCents: z.number().int().min(0),
+    currency: z.string().regex(/^[A-Z]{3}$/, "Use an ISO 4217 currency code"),
+    quantity: z.number().int().min(1),
+    salesStartAt: instantSchema.optional(),
+    salesEndAt: instantSchema.optional(),
+  })
+  .refine(salesWindowIsValid, salesWindowMessage);
+
+// Currency is fixed once the ticket type exists
+const updateTicketTypeSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    description: z.string().max(1000).nullable().optional(),
+    priceCents: z.number().int().min(0).optional(),
+    quantity: z.number().int().min(1).optional(),
+    // null opens the sales window on that end
+    salesStartAt: instantSchema.nullable().optional(),
+    salesEndAt: instantSchema.nullable().optional(),
+  })
+  .refine(salesWindowIsValid, salesWindowMessage);
+
+const importQuerySchema = z.object({
+  format: z.enum(IMPORT_FORMATS).optional(),
+  dryRun: z.enum(["true", "false"]).optional(),
+});
+
+// Validate import row with the POST /events rules and create it unless this
+// is a dry run; rows repeating an event (same title and start) are skipped
+const importEventRow = async (
+  { row, uid, data, errors, skipReason }: ImportRow,
+  organizerId: string,
+  dryRun: boolean,
+  seen: Set<string>
+): Promise<EventImportRowResult> => {
+  const result = {
+    row,
+    uid,
+    title: typeof data.title === "string" ? data.title : undefined,
+  };
+
+  if (skipReason) return { ...result, status: "skipped", reason: skipReason };
+  if (errors) return { ...result, status: "failed", errors };
+
+  const parsed = createEventSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      ...result,
+      status: "failed",
+      errors: parsed.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message
+      ),
+    };
+  }
+
+  const eventData = await withVenueDefaults(parsed.data);
+  if (!eventData) {
+    return {
+      ...result,
+      status: "failed",
+      errors: ["venueId: Venue not found"],
+    };
+  }
+
+  if (
+    eventData.groupId &&
+    !(await canPostToGroup(organizerId, eventData.groupId))
+  ) {
+    return {
+      ...result,
+      status: "failed",
+      errors: ["groupId: Not a member of this group"],
+    };
+  }
+
+  const date = new Date(eventData.date);
+  const key = `${eventData.title}|${date.getTime()}`;
+  if (
+    seen.has(key) ||
+    (await hasOrganizerEvent(organizerId, eventData.title, date))
+  ) {
+    return { ...result, status: "skipped", reason: "Duplicate event" };
+  }
+  seen.add(key);
+
+  if (dryRun) return { ...result, status: "valid" };
+
+  try {
+    const event = await createEvent({
+      ...eventData,
+      date,
+      endDate: eventData.endDate ? new Date(eventData.endDate) : undefined,
+      publishAt: eventData.publishAt
+        ? new Date(eventData.publishAt)
+        : undefined,
+      organizerId,
     });
+
+    return { ...result, status: "created", eventId: event.id };
   } catch (error) {
-    return c.json({ success: false, error: "Failed to fetch events" }, 500);
+    return {
+      ...result,
+      status: "failed",
+      errors: ["Failed to create event"],
+    };
   }
-});
+};
+
+// GET /events - Get all events with pagination
+events.get(
+  "/",
+  optionalAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const result = await getAllEvents(page, limit, c.get("user")?.id);
+
+      return c.json({
+        success: true,
+        data: result.events,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to fetch events" }, 500);
+    }
+  }
+);
 
 // GET /events/search - Search events
-events.get("/search", zValidator("query", searchSchema), async (c) => {
+events.get(
+  "/search",
+  optionalAuth,
+  zValidator("query", searchSchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const q = query.q;
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const results = await searchEvents(q, page, limit, c.get("user")?.id);
+
+      return c.json({
+        success: true,
+        data: results,
+        query: q,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to search events" }, 500);
+    }
+  }
+);
+
+// GET /events/imports - List current user's imports
+events.get(
+  "/imports",
+  requireAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const imports = await getUserEventImports(c.get("user").id, page, limit);
+
+      return c.json({
+        success: true,
+        data: imports,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to fetch imports" }, 500);
+    }
+  }
+);
+
+// GET /events/imports/:id - Get import result with per-row outcomes
+events.get("/imports/:id", requireAuth, async (c) => {
   try {
-    const query = c.req.valid("query");
-    const q = query.q;
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const results = await searchEvents(q, page, limit);
+    const eventImport = await getEventImportById(c.req.param("id"));
+
+    if (!eventImport) {
+      return c.json({ success: false, error: "Import not found" }, 404);
+    }
+
+    // Imports are private to the importing user and admins
+    if (!canManage(c.get("user"), eventImport.userId, ["admin"])) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
 
     return c.json({
       success: true,
-      data: results,
-      query: q,
+      data: eventImport,
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to search events" }, 500);
+    return c.json({ success: false, error: "Failed to fetch import" }, 500);
   }
 });
 
-// GET /events/upcoming - Get upcoming events
-events.get("/upcoming", zValidator("query", paginationSchema), async (c) => {
+// GET /events/series/:id - Get event series with its occurrences
+events.get("/series/:id", optionalAuth, async (c) => {
   try {
-    const query = c.req.valid("query");
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const results = await getUpcomingEvents(page, limit);
+    const seriesId = c.req.param("id");
+    const user = c.get("user");
+    const series = await getEventSeriesById(seriesId, user?.id);
+
+    // Series without a single visible occurrence stay hidden from others
+    if (
+      !series ||
+      (series.occurrences.length === 0 &&
+        !(user && canManage(user, series.series.organizerId)))
+    ) {
+      return c.json({ success: false, error: "Event series not found" }, 404);
+    }
 
     return c.json({
       success: true,
-      data: results,
+      data: series,
     });
   } catch (error) {
     return c.json(
-      { success: false, error: "Failed to fetch upcoming events" },
+      { success: false, error: "Failed to fetch event series" },
       500
     );
   }
 });
 
+// GET /events/nearby - Get events within radius, nearest first
+events.get(
+  "/nearby",
+  optionalAuth,
+  zValidator("query", nearbySchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const radiusKm = query.radiusKm || 10;
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const results = await getNearbyEvents(
+        query.lat,
+        query.lng,
+        radiusKm,
+        page,
+        limit,
+        c.get("user")?.id
+      );
+
+      return c.json({
+        success: true,
+        data: results,
+        radiusKm,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch nearby events" },
+        500
+      );
+    }
+  }
+);
+
+// GET /events/bounds - Get events inside map viewport
+events.get(
+  "/bounds",
+  optionalAuth,
+  zValidator("query", boundsSchema),
+  async (c) => {
+    try {
+      const { south, west, north, east, ...query } = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+
+      if (south > north) {
+        return c.json(
+          { success: false, error: "south must not be greater than north" },
+          400
+        );
+      }
+
+      const results = await getEventsInBounds(
+        { south, west, north, east },
+        page,
+        limit,
+        c.get("user")?.id
+      );
+
+      return c.json({
+        success: true,
+        data: results,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch events in bounds" },
+        500
+      );
+    }
+  }
+);
+
+// GET /events/upcoming - Get upcoming events
+events.get(
+  "/upcoming",
+  optionalAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const results = await getUpcomingEvents(page, limit, c.get("user")?.id);
+
+      return c.json({
+        success: true,
+        data: results,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch upcoming events" },
+        500
+      );
+    }
+  }
+);
+
 // GET /events/location/:location - Get events by location
 events.get(
   "/location/:location",
+  optionalAuth,
   zValidator("query", paginationSchema),
   async (c) => {
     try {
@@ -132,7 +825,12 @@ events.get(
       const query = c.req.valid("query");
       const page = query.page || 1;
       const limit = query.limit || 10;
-      const results = await getEventsByLocation(location, page, limit);
+      const results = await getEventsByLocation(
+        location,
+        page,
+        limit,
+        c.get("user")?.id
+      );
 
       return c.json({
         success: true,
@@ -151,6 +849,7 @@ events.get(
 // GET /events/interest/:interest - Get events by interest category
 events.get(
   "/interest/:interest",
+  optionalAuth,
   zValidator("query", paginationSchema),
   async (c) => {
     try {
@@ -158,7 +857,12 @@ events.get(
       const query = c.req.valid("query");
       const page = query.page || 1;
       const limit = query.limit || 10;
-      const results = await getEventsByInterest(interest, page, limit);
+      const results = await getEventsByInterest(
+        interest,
+        page,
+        limit,
+        c.get("user")?.id
+      );
 
       return c.json({
         success: true,
@@ -177,6 +881,7 @@ events.get(
 // GET /events/interests - Search events by multiple interests
 events.get(
   "/interests",
+  optionalAuth,
   zValidator(
     "query",
     z.object({
@@ -195,7 +900,12 @@ events.get(
       const interests = query.interests.split(",").map((i) => i.trim());
       const page = query.page || 1;
       const limit = query.limit || 10;
-      const results = await searchEventsByInterests(interests, page, limit);
+      const results = await searchEventsByInterests(
+        interests,
+        page,
+        limit,
+        c.get("user")?.id
+      );
 
       return c.json({
         success: true,
@@ -211,235 +921,2094 @@ events.get(
   }
 );
 
-// GET /events/:id - Get event by ID
-events.get("/:id", async (c) => {
-  try {
-    const eventId = c.req.param("id");
-    const event = await getEventById(eventId);
-
-    if (!event) {
-      return c.json({ success: false, error: "Event not found" }, 404);
-    }
-
-    return c.json({
-      success: true,
-      data: event,
-    });
-  } catch (error) {
-    return c.json({ success: false, error: "Failed to fetch event" }, 500);
-  }
-});
-
-// GET /events/:id/participants - Get event participants
+// GET /events/drafts - List current user's unpublished events
 events.get(
-  "/:id/participants",
+  "/drafts",
+  requireAuth,
   zValidator("query", paginationSchema),
   async (c) => {
     try {
-      const eventId = c.req.param("id");
       const query = c.req.valid("query");
       const page = query.page || 1;
       const limit = query.limit || 10;
-      const participants = await getEventParticipants(eventId, page, limit);
+      const drafts = await getOrganizerDrafts(c.get("user").id, page, limit);
 
       return c.json({
         success: true,
-        data: participants,
+        data: drafts,
       });
     } catch (error) {
-      return c.json(
-        { success: false, error: "Failed to fetch event participants" },
-        500
-      );
+      return c.json({ success: false, error: "Failed to fetch drafts" }, 500);
+    }
+  }
+);
+
+// GET /events/role-invitations - List current user's pending host invitations
+events.get("/role-invitations", requireAuth, async (c) => {
+  try {
+    const invitations = await getUserRoleInvitations(c.get("user").id);
+
+    return c.json({
+      success: true,
+      data: invitations,
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to fetch role invitations" },
+      500
+    );
+  }
+});
+
+// GET /events/invite/:token - Preview event behind an invite link
+events.get("/invite/:token", async (c) => {
+  try {
+    const inviteLink = await getInviteLinkByHash(
+      hashToken(c.req.param("token"))
+    );
+    const event = inviteLink && (await getEventById(inviteLink.eventId));
+
+    // Links to events that are not published yet do not work before then
+    if (
+      !inviteLink ||
+      !event ||
+      !["published", "cancelled"].includes(event.event.status)
+    ) {
+      return c.json({ success: false, error: "Invite link not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        event: event.event,
+        organizer: event.organizer,
+        expiresAt: inviteLink.expiresAt,
+        remainingUses:
+          inviteLink.maxUses === null
+            ? null
+            : Math.max(inviteLink.maxUses - inviteLink.uses, 0),
+      },
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to fetch invite link" },
+      500
+    );
+  }
+});
+
+// POST /events/invite/:token - Accept invite link for current user
+events.post("/invite/:token", requireAuth, async (c) => {
+  try {
+    const tokenHash = hashToken(c.req.param("token"));
+    const inviteLink = await getInviteLinkByHash(tokenHash);
+    const event = inviteLink && (await getEventById(inviteLink.eventId));
+
+    if (
+      !inviteLink ||
+      !event ||
+      !["published", "cancelled"].includes(event.event.status)
+    ) {
+      return c.json({ success: false, error: "Invite link not found" }, 404);
+    }
+
+    if (event.event.status === "cancelled") {
+      return c.json({ success: false, error: "Event is cancelled" }, 400);
+    }
+
+    const result = await redeemInviteLink(tokenHash, c.get("user").id);
+
+    if (result.status === "not_found") {
+      return c.json({ success: false, error: "Invite link not found" }, 404);
+    }
+
+    if (result.status === "expired") {
+      return c.json({ success: false, error: "Invite link has expired" }, 410);
+    }
+
+    if (result.status === "used_up") {
+      return c.json(
+        { success: false, error: "Invite link has been used up" },
+        410
+      );
+    }
+
+    if (result.status === "already_invited") {
+      return c.json({
+        success: true,
+        data: result.participation,
+        message: "Already invited to this event",
+      });
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: result.participation,
+        message: "Invitation accepted, RSVP to attend",
+      },
+      201
+    );
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to accept invite link" },
+      500
+    );
+  }
+});
+
+// GET /events/:id - Get event by ID
+events.get("/:id", optionalAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const event = await getEventById(eventId);
+
+    if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch event" }, 500);
+  }
+});
+
+// GET /events/:id/calendar.ics - Download event as iCalendar file
+events.get("/:id/calendar.ics", optionalAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const event = await getEventById(eventId);
+
+    if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    return c.body(
+      buildCalendar(event.event.title || "LocalEve event", [event.event]),
+      200,
+      {
+        "Content-Type": ICAL_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="event-${eventId}.ics"`,
+      }
+    );
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to export event" }, 500);
+  }
+});
+
+// GET /events/:id/participants - Get event participants
+events.get(
+  "/:id/participants",
+  optionalAuth,
+  zValidator("query", participantsQuerySchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const participants = await getEventParticipants(
+        eventId,
+        page,
+        limit,
+        query.status
+      );
+
+      return c.json({
+        success: true,
+        data: participants,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch event participants" },
+        500
+      );
+    }
+  }
+);
+
+// GET /events/:id/waitlist - Get event waitlist in promotion order
+events.get(
+  "/:id/waitlist",
+  optionalAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const waitlist = await getEventWaitlist(eventId, page, limit);
+
+      return c.json({
+        success: true,
+        data: waitlist,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch event waitlist" },
+        500
+      );
     }
   }
 );
 
 // GET /events/:id/reviews - Get event reviews
-events.get("/:id/reviews", zValidator("query", paginationSchema), async (c) => {
+events.get(
+  "/:id/reviews",
+  optionalAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const reviews = await getEventReviews(eventId, page, limit);
+
+      return c.json({
+        success: true,
+        data: reviews,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch event reviews" },
+        500
+      );
+    }
+  }
+);
+
+// POST /events - Create new event
+events.post(
+  "/",
+  requireAuth,
+  zValidator("json", createEventSchema),
+  async (c) => {
+    try {
+      const eventData = await withVenueDefaults(c.req.valid("json"));
+      if (!eventData) {
+        return c.json({ success: false, error: "Venue not found" }, 400);
+      }
+
+      if (
+        eventData.groupId &&
+        !(await canPostToGroup(c.get("user").id, eventData.groupId))
+      ) {
+        return c.json(
+          { success: false, error: "Not a member of this group" },
+          403
+        );
+      }
+
+      const event = await createEvent({
+        ...eventData,
+        date: new Date(eventData.date),
+        endDate: eventData.endDate ? new Date(eventData.endDate) : undefined,
+        publishAt: eventData.publishAt
+          ? new Date(eventData.publishAt)
+          : undefined,
+        organizerId: c.get("user").id,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: event,
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to create event" }, 500);
+    }
+  }
+);
+
+// POST /events/import - Create events from a CSV or iCalendar file
+events.post(
+  "/import",
+  requireAuth,
+  zValidator("query", importQuerySchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const dryRun = query.dryRun === "true";
+
+      // Multipart uploads carry the file in a "file" field, otherwise the
+      // request body is the file itself
+      let fileName = "";
+      let contentType = c.req.header("Content-Type") || "";
+      let text: string;
+      if (contentType.startsWith("multipart/form-data")) {
+        const { file } = await c.req.parseBody();
+        if (!file || typeof file === "string") {
+          return c.json({ success: false, error: "file is required" }, 400);
+        }
+        fileName = file.name;
+        contentType = file.type;
+        text = await file.text();
+      } else {
+        text = await c.req.text();
+      }
+
+      const format = query.format ?? detectImportFormat(fileName, contentType);
+      if (!format) {
+        return c.json(
+          {
+            success: false,
+            error: "Unknown file format, pass format=csv or format=ics",
+          },
+          400
+        );
+      }
+
+      const rows = parseImportFile(format, text);
+      if (rows.length === 0) {
+        return c.json(
+          { success: false, error: "File contains no events" },
+          400
+        );
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return c.json(
+          {
+            success: false,
+            error: `An import can have at most ${MAX_IMPORT_ROWS} events`,
+          },
+          400
+        );
+      }
+
+      const userId = c.get("user").id;
+      const seen = new Set<string>();
+      const results: EventImportRowResult[] = [];
+      for (const row of rows) {
+        results.push(await importEventRow(row, userId, dryRun, seen));
+      }
+
+      const eventImport = await createEventImport({
+        userId,
+        format,
+        dryRun,
+        rows: results,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: eventImport,
+          message: dryRun
+            ? "Dry run finished, no events were created"
+            : "Import finished",
+        },
+        dryRun ? 200 : 201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to import events" }, 500);
+    }
+  }
+);
+
+// POST /events/series - Create recurring event series
+events.post(
+  "/series",
+  requireAuth,
+  zValidator("json", createSeriesSchema),
+  async (c) => {
+    try {
+      const { recurrence, date, endDate, ...fields } = c.req.valid("json");
+      const eventData = await withVenueDefaults(fields);
+      if (!eventData) {
+        return c.json({ success: false, error: "Venue not found" }, 400);
+      }
+
+      if (
+        eventData.groupId &&
+        !(await canPostToGroup(c.get("user").id, eventData.groupId))
+      ) {
+        return c.json(
+          { success: false, error: "Not a member of this group" },
+          403
+        );
+      }
+
+      const rule = {
+        frequency: recurrence.frequency,
+        interval: recurrence.interval || 1,
+        byWeekday: recurrence.byWeekday,
+        startsAt: new Date(date),
+        until: recurrence.until ? new Date(recurrence.until) : undefined,
+        count: recurrence.count,
+        exceptions: recurrence.exceptions?.map((d) => new Date(d)),
+        timeZone: eventData.timeZone,
+      };
+
+      // Every occurrence lasts as long as the first one
+      const durationMinutes = endDate
+        ? Math.round(
+            (new Date(endDate).getTime() - rule.startsAt.getTime()) / 60000
+          )
+        : undefined;
+
+      // Size is checked before exceptions so they cannot hide a runaway rule
+      if (
+        expandRecurrence({ ...rule, exceptions: null }).length >
+        MAX_SERIES_OCCURRENCES
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`,
+          },
+          400
+        );
+      }
+
+      const occurrenceDates = expandRecurrence(rule);
+      if (occurrenceDates.length === 0) {
+        return c.json(
+          { success: false, error: "Recurrence has no occurrences" },
+          400
+        );
+      }
+
+      const series = await createEventSeries(
+        {
+          ...eventData,
+          ...rule,
+          durationMinutes,
+          organizerId: c.get("user").id,
+        },
+        occurrenceDates
+      );
+
+      return c.json(
+        {
+          success: true,
+          data: series,
+        },
+        201
+      );
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to create event series" },
+        500
+      );
+    }
+  }
+);
+
+// PUT /events/:id - Update event
+events.put(
+  "/:id",
+  requireAuth,
+  zValidator("json", updateEventSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const updateData = await withVenueDefaults(c.req.valid("json"));
+      if (!updateData) {
+        return c.json({ success: false, error: "Venue not found" }, 400);
+      }
+
+      // Check if event exists
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Organizer, co-organizers and moderators may edit the event; roles
+      // belong to one occurrence, so series-wide edits stay with the organizer
+      const user = c.get("user");
+      if (
+        updateData.scope && updateData.scope !== "this"
+          ? !canManage(user, existingEvent.event.organizerId)
+          : !(await canManageEvent(user, existingEvent.event, "edit"))
+      ) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      if (
+        updateData.groupId &&
+        !(await canPostToGroup(c.get("user").id, updateData.groupId))
+      ) {
+        return c.json(
+          { success: false, error: "Not a member of this group" },
+          403
+        );
+      }
+
+      const updatePayload: {
+        title?: string;
+        description?: string;
+        date?: Date;
+        endDate?: Date | null;
+        timeZone?: string;
+        location?: string;
+        latitude?: number | null;
+        longitude?: number | null;
+        venueId?: string | null;
+        groupId?: string | null;
+        interests?: string[];
+        capacity?: number | null;
+        visibility?: EventVisibility;
+      } = {};
+
+      if (updateData.title) updatePayload.title = updateData.title;
+      if (updateData.description)
+        updatePayload.description = updateData.description;
+      if (updateData.date) updatePayload.date = new Date(updateData.date);
+      if (updateData.endDate !== undefined)
+        updatePayload.endDate = updateData.endDate
+          ? new Date(updateData.endDate)
+          : null;
+      if (updateData.timeZone) updatePayload.timeZone = updateData.timeZone;
+      if (updateData.location) updatePayload.location = updateData.location;
+      if (updateData.latitude !== undefined)
+        updatePayload.latitude = updateData.latitude;
+      if (updateData.longitude !== undefined)
+        updatePayload.longitude = updateData.longitude;
+      if (updateData.venueId !== undefined)
+        updatePayload.venueId = updateData.venueId;
+      if (updateData.groupId !== undefined)
+        updatePayload.groupId = updateData.groupId;
+      if (updateData.interests) updatePayload.interests = updateData.interests;
+      if (updateData.capacity !== undefined)
+        updatePayload.capacity = updateData.capacity;
+      if (updateData.visibility)
+        updatePayload.visibility = updateData.visibility;
+
+      if (updateData.scope && updateData.scope !== "this") {
+        const { seriesId, occurrenceDate } = existingEvent.event;
+        if (!seriesId || !occurrenceDate) {
+          return c.json(
+            { success: false, error: "Event is not part of a series" },
+            400
+          );
+        }
+
+        if (updatePayload.date || updatePayload.endDate !== undefined) {
+          return c.json(
+            {
+              success: false,
+              error: "Only a single occurrence can be rescheduled",
+            },
+            400
+          );
+        }
+
+        if (Object.keys(updatePayload).length === 0) {
+          return c.json({ success: false, error: "No changes given" }, 400);
+        }
+
+        const result =
+          updateData.scope === "all"
+            ? await updateAllOccurrences(seriesId, updatePayload)
+            : await updateFollowingOccurrences(
+                seriesId,
+                occurrenceDate,
+                updatePayload
+              );
+
+        if (updateData.capacity !== undefined && result) {
+          for (const occurrence of result.occurrences) {
+            const promoted = await promoteWaitlistedUsers(occurrence.id);
+            await notifyPromotedUsers(occurrence.title, promoted);
+          }
+        }
+
+        return c.json({
+          success: true,
+          data: result,
+        });
+      }
+
+      // Moving the start keeps the duration unless a new end is given
+      const { date, endDate } = existingEvent.event;
+      if (
+        updatePayload.date &&
+        updatePayload.endDate === undefined &&
+        endDate
+      ) {
+        updatePayload.endDate = new Date(
+          updatePayload.date.getTime() + (endDate.getTime() - date.getTime())
+        );
+      }
+
+      const newStart = updatePayload.date ?? date;
+      const newEnd =
+        updatePayload.endDate === undefined ? endDate : updatePayload.endDate;
+      if (newEnd && newEnd <= newStart) {
+        return c.json(
+          { success: false, error: "endDate must be after date" },
+          400
+        );
+      }
+
+      const updatedEvent = await updateEvent(eventId, updatePayload);
+
+      // A raised or removed limit frees spots for waitlisted users
+      if (updateData.capacity !== undefined) {
+        const promoted = await promoteWaitlistedUsers(eventId);
+        await notifyPromotedUsers(existingEvent.event.title, promoted);
+      }
+
+      return c.json({
+        success: true,
+        data: updatedEvent,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update event" }, 500);
+    }
+  }
+);
+
+// PUT /events/:id/status - Publish, schedule, unpublish or cancel event
+events.put(
+  "/:id/status",
+  requireAuth,
+  zValidator("json", statusSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { status, publishAt, reason } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Only the organizer or a moderator may change the status
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const currentStatus = existingEvent.event.status;
+      if (!EVENT_STATUS_TRANSITIONS[currentStatus].includes(status)) {
+        return c.json(
+          {
+            success: false,
+            error: `Cannot change status from ${currentStatus} to ${status}`,
+          },
+          409
+        );
+      }
+
+      const updatedEvent = await updateEventStatus(
+        eventId,
+        status,
+        publishAt ? new Date(publishAt) : null
+      );
+
+      // Orders that could not be refunded stay completed for a later
+      // refund through the order
+      const failedRefunds: string[] = [];
+
+      if (status === "cancelled") {
+        // Collected before refunds remove the ticket holders' participation
+        const audience = await getEventAudience(eventId);
+
+        for (const orderId of await getCompletedEventOrderIds(eventId)) {
+          const refund = await refundTicketOrder(orderId);
+          if (refund.status !== "refunded") {
+            failedRefunds.push(orderId);
+            continue;
+          }
+
+          await createNotification({
+            userId: refund.order.userId,
+            content: `Your ticket for "${existingEvent.event.title}" has been refunded`,
+          });
+        }
+
+        for (const userId of audience) {
+          await createNotification({
+            userId,
+            content: reason
+              ? `"${existingEvent.event.title}" has been cancelled: ${reason}`
+              : `"${existingEvent.event.title}" has been cancelled`,
+          });
+        }
+      }
+
+      return c.json({
+        success: true,
+        data: updatedEvent,
+        ...(failedRefunds.length > 0 && { failedRefunds }),
+        message: "Event status updated successfully",
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to update event status" },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /events/:id - Delete event
+events.delete("/:id", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+
+    // Check if event exists
+    const existingEvent = await getEventById(eventId);
+    if (!existingEvent) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    // Only the organizer or a moderator may delete the event
+    if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    // Sold tickets have to be refunded by cancelling the event instead
+    if (await hasEventOrders(eventId)) {
+      return c.json(
+        {
+          success: false,
+          error: "Event has ticket orders, cancel it and refund them instead",
+        },
+        409
+      );
+    }
+
+    const deletedEvent = await deleteEvent(eventId);
+
+    return c.json({
+      success: true,
+      data: deletedEvent,
+      message: "Event deleted successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to delete event" }, 500);
+  }
+});
+
+// POST /events/:id/join - Join event
+events.post("/:id/join", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const userId = c.get("user").id;
+
+    // Private events can only be joined once invited
+    const event = await getEventById(eventId);
+    if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    if (await hasTicketTypes(eventId)) {
+      return c.json(
+        { success: false, error: "This event requires a ticket" },
+        400
+      );
+    }
+
+    const result = await joinEvent(userId, eventId);
+
+    if (result.status === "not_found") {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    if (result.status === "cancelled") {
+      return c.json({ success: false, error: "Event is cancelled" }, 400);
+    }
+
+    if (result.status === "already_joined") {
+      return c.json(
+        { success: false, error: "Already participating in this event" },
+        400
+      );
+    }
+
+    if (result.status === "already_waitlisted") {
+      return c.json(
+        { success: false, error: "Already on the waitlist for this event" },
+        400
+      );
+    }
+
+    if (result.status === "waitlisted") {
+      return c.json({
+        success: true,
+        status: result.status,
+        data: { ...result.waitlistEntry, position: result.position },
+        message: "Event is full, added to waitlist",
+      });
+    }
+
+    return c.json({
+      success: true,
+      status: result.status,
+      data: result.participation,
+      message: "Successfully joined event",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to join event" }, 500);
+  }
+});
+
+// GET /events/:id/rsvp - Get current user's RSVP status
+events.get("/:id/rsvp", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const status = await getParticipationStatus(c.get("user").id, eventId);
+
+    return c.json({
+      success: true,
+      data: { status },
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch RSVP" }, 500);
+  }
+});
+
+// PUT /events/:id/rsvp - Change current user's RSVP
+events.put(
+  "/:id/rsvp",
+  requireAuth,
+  zValidator("json", rsvpSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { status } = c.req.valid("json");
+
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const userId = c.get("user").id;
+
+      // Ticket holders give up their spot through a refund, which also puts
+      // the ticket back on sale
+      if (await hasCompletedOrder(userId, eventId)) {
+        if (status !== "going") {
+          return c.json(
+            { success: false, error: "Ticket holders need a refund to leave" },
+            409
+          );
+        }
+      } else if (status === "going" && (await hasTicketTypes(eventId))) {
+        // Attending a ticketed event takes a completed order
+        return c.json(
+          { success: false, error: "This event requires a ticket" },
+          400
+        );
+      }
+
+      const result = await updateRsvp(userId, eventId, status);
+
+      if (result.status === "not_found") {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      if (result.status === "cancelled") {
+        return c.json({ success: false, error: "Event is cancelled" }, 400);
+      }
+
+      if (result.status === "already_joined") {
+        return c.json(
+          { success: false, error: "Already participating in this event" },
+          400
+        );
+      }
+
+      if (result.status === "already_waitlisted") {
+        return c.json(
+          { success: false, error: "Already on the waitlist for this event" },
+          400
+        );
+      }
+
+      if (result.status === "waitlisted") {
+        return c.json({
+          success: true,
+          status: result.status,
+          data: { ...result.waitlistEntry, position: result.position },
+          message: "Event is full, added to waitlist",
+        });
+      }
+
+      if (result.promoted.length > 0) {
+        await notifyPromotedUsers(event.event.title, result.promoted);
+      }
+
+      return c.json({
+        success: true,
+        status: result.status,
+        data: result.participation,
+        message: "RSVP updated successfully",
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update RSVP" }, 500);
+    }
+  }
+);
+
+// POST /events/:id/invitations - Invite user to event
+events.post(
+  "/:id/invitations",
+  requireAuth,
+  zValidator("json", invitationSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { userId } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Organizer, co-organizers and event moderators may invite people
+      if (
+        !(await canManageEvent(
+          c.get("user"),
+          existingEvent.event,
+          "manage_participants"
+        ))
+      ) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      if (existingEvent.event.status === "cancelled") {
+        return c.json({ success: false, error: "Event is cancelled" }, 400);
+      }
+
+      const invitee = await getUserById(userId);
+      if (!invitee) {
+        return c.json({ success: false, error: "User not found" }, 404);
+      }
+
+      const invitation = await inviteToEvent(userId, eventId);
+      if (!invitation) {
+        return c.json(
+          { success: false, error: "User already has an RSVP for this event" },
+          409
+        );
+      }
+
+      await createNotification({
+        userId,
+        content: `You are invited to "${existingEvent.event.title}"`,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: invitation,
+          message: "User invited successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to invite user" }, 500);
+    }
+  }
+);
+
+// DELETE /events/:id/leave - Leave event
+events.delete("/:id/leave", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const userId = c.get("user").id;
+
+    // Leaving would keep the ticket sold without a spot to go with it
+    if (await hasCompletedOrder(userId, eventId)) {
+      return c.json(
+        { success: false, error: "Ticket holders need a refund to leave" },
+        409
+      );
+    }
+
+    const result = await leaveEvent(userId, eventId);
+
+    if (result.promoted.length > 0) {
+      const event = await getEventById(eventId);
+      await notifyPromotedUsers(event?.event.title ?? null, result.promoted);
+    }
+
+    return c.json({
+      success: true,
+      data: result.participation ?? result.waitlistEntry,
+      message: "Successfully left event",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to leave event" }, 500);
+  }
+});
+
+// POST /events/:id/reviews - Add event review
+events.post(
+  "/:id/reviews",
+  requireAuth,
+  zValidator("json", reviewSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const reviewData = c.req.valid("json");
+
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const review = await addEventReview({
+        eventId,
+        userId: c.get("user").id,
+        rating: reviewData.rating,
+        comment: reviewData.comment,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: review,
+          message: "Review added successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to add review" }, 500);
+    }
+  }
+);
+
+// GET /events/:id/comments - Get page of event's comments or of a comment's replies
+events.get(
+  "/:id/comments",
+  optionalAuth,
+  zValidator("query", commentsQuerySchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const query = c.req.valid("query");
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !cursor) {
+        return c.json({ success: false, error: "Invalid cursor" }, 400);
+      }
+
+      if (query.parentId) {
+        const parent = await getCommentById(query.parentId);
+        if (!parent || parent.eventId !== eventId) {
+          return c.json({ success: false, error: "Comment not found" }, 404);
+        }
+      }
+
+      const page = await getEventComments(eventId, {
+        parentId: query.parentId,
+        cursor,
+        limit: query.limit || 10,
+      });
+
+      // Pinned comments lead the first page of top-level comments
+      const pinned =
+        query.parentId || cursor ? [] : await getPinnedComments(eventId);
+
+      return c.json({
+        success: true,
+        data: { pinned, ...page },
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to fetch comments" }, 500);
+    }
+  }
+);
+
+// POST /events/:id/comments - Comment on event or reply to a comment
+events.post(
+  "/:id/comments",
+  requireAuth,
+  zValidator("json", createCommentSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { body, parentId } = c.req.valid("json");
+      const user = c.get("user");
+
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(user, event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      if (parentId) {
+        const parent = await getCommentById(parentId);
+        if (!parent || parent.eventId !== eventId) {
+          return c.json({ success: false, error: "Comment not found" }, 404);
+        }
+
+        if (parent.deletedAt) {
+          return c.json(
+            { success: false, error: "Cannot reply to a deleted comment" },
+            400
+          );
+        }
+      }
+
+      const comment = await createComment({
+        eventId,
+        userId: user.id,
+        parentId,
+        body,
+      });
+
+      await notifyMentionedUsers(event.event, user, body);
+
+      return c.json(
+        {
+          success: true,
+          data: comment,
+          message: "Comment added successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to add comment" }, 500);
+    }
+  }
+);
+
+// PUT /events/:id/comments/:commentId - Edit own comment
+events.put(
+  "/:id/comments/:commentId",
+  requireAuth,
+  zValidator("json", updateCommentSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const commentId = c.req.param("commentId");
+      const { body } = c.req.valid("json");
+      const user = c.get("user");
+
+      const event = await getEventById(eventId);
+      if (!event || !(await canViewEvent(user, event.event))) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      const comment = await getCommentById(commentId);
+      if (!comment || comment.eventId !== eventId || comment.deletedAt) {
+        return c.json({ success: false, error: "Comment not found" }, 404);
+      }
+
+      // Nobody else may put words in the author's mouth
+      if (comment.userId !== user.id) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const editedComment = await editComment(commentId, body);
+      if (!editedComment) {
+        return c.json({ success: false, error: "Comment not found" }, 404);
+      }
+
+      await notifyMentionedUsers(event.event, user, body, comment.body);
+
+      return c.json({
+        success: true,
+        data: editedComment,
+        message: "Comment updated successfully",
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update comment" }, 500);
+    }
+  }
+);
+
+// DELETE /events/:id/comments/:commentId - Delete comment, keeping its replies
+events.delete("/:id/comments/:commentId", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const commentId = c.req.param("commentId");
+    const user = c.get("user");
+
+    const event = await getEventById(eventId);
+    const comment = await getCommentById(commentId);
+    if (!event || !comment || comment.eventId !== eventId) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    if (comment.deletedAt) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    // Authors delete their own comments, hosts moderate the discussion
+    if (
+      comment.userId !== user.id &&
+      !(await canManageEvent(user, event.event, "manage_participants"))
+    ) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    const deletedComment = await deleteComment(commentId);
+    if (!deletedComment) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: "Comment deleted successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to delete comment" }, 500);
+  }
+});
+
+// GET /events/:id/comments/:commentId/edits - Get comment's edit history
+events.get("/:id/comments/:commentId/edits", optionalAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const commentId = c.req.param("commentId");
+
+    const event = await getEventById(eventId);
+    if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    // History of deleted comments goes with them
+    const comment = await getCommentById(commentId);
+    if (!comment || comment.eventId !== eventId || comment.deletedAt) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    const edits = await getCommentEdits(commentId);
+
+    return c.json({
+      success: true,
+      data: edits,
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to fetch comment edits" },
+      500
+    );
+  }
+});
+
+// Pin or unpin top-level comment as an organizer
+const pinComment = async (
+  user: AuthUser,
+  eventId: string,
+  commentId: string,
+  pinned: boolean
+) => {
+  const event = await getEventById(eventId);
+  const comment = await getCommentById(commentId);
+  if (!event || !comment || comment.eventId !== eventId || comment.deletedAt) {
+    return { status: "not_found" as const };
+  }
+
+  if (!(await canManageEvent(user, event.event, "edit"))) {
+    return { status: "forbidden" as const };
+  }
+
+  if (comment.parentId) {
+    return { status: "reply" as const };
+  }
+
+  const pinnedComment = await setCommentPinned(
+    commentId,
+    pinned ? user.id : null
+  );
+  if (!pinnedComment) return { status: "not_found" as const };
+
+  return { status: "updated" as const, comment: pinnedComment };
+};
+
+// POST /events/:id/comments/:commentId/pin - Pin comment
+events.post("/:id/comments/:commentId/pin", requireAuth, async (c) => {
+  try {
+    const result = await pinComment(
+      c.get("user"),
+      c.req.param("id"),
+      c.req.param("commentId"),
+      true
+    );
+
+    if (result.status === "not_found") {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    if (result.status === "forbidden") {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    if (result.status === "reply") {
+      return c.json(
+        { success: false, error: "Only top-level comments can be pinned" },
+        400
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.comment,
+      message: "Comment pinned successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to pin comment" }, 500);
+  }
+});
+
+// DELETE /events/:id/comments/:commentId/pin - Unpin comment
+events.delete("/:id/comments/:commentId/pin", requireAuth, async (c) => {
+  try {
+    const result = await pinComment(
+      c.get("user"),
+      c.req.param("id"),
+      c.req.param("commentId"),
+      false
+    );
+
+    if (result.status === "not_found" || result.status === "reply") {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+
+    if (result.status === "forbidden") {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    return c.json({
+      success: true,
+      data: result.comment,
+      message: "Comment unpinned successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to unpin comment" }, 500);
+  }
+});
+
+// GET /events/:id/roles - Get event's hosts including pending invitations
+events.get("/:id/roles", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+
+    const existingEvent = await getEventById(eventId);
+    if (!existingEvent) {
+      return c.json({ success: false, error: "Event not found" }, 404);
+    }
+
+    if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    const hosts = await getEventHosts(eventId, true);
+
+    return c.json({
+      success: true,
+      data: hosts,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch roles" }, 500);
+  }
+});
+
+// POST /events/:id/roles - Invite user to help host event
+events.post(
+  "/:id/roles",
+  requireAuth,
+  zValidator("json", roleInvitationSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { userId, role } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Only the organizer or a moderator may hand out roles
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      if (userId === existingEvent.event.organizerId) {
+        return c.json(
+          { success: false, error: "User is the event's organizer" },
+          400
+        );
+      }
+
+      const invitee = await getUserById(userId);
+      if (!invitee) {
+        return c.json({ success: false, error: "User not found" }, 404);
+      }
+
+      const eventRole = await inviteEventRole({
+        eventId,
+        userId,
+        role,
+        invitedBy: c.get("user").id,
+      });
+      if (!eventRole) {
+        return c.json(
+          { success: false, error: "User already has a role for this event" },
+          409
+        );
+      }
+
+      await createNotification({
+        userId,
+        content: `You are invited to help host "${existingEvent.event.title}" as ${role.replace("_", "-")}`,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: eventRole,
+          message: "Role invitation sent successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to send role invitation" },
+        500
+      );
+    }
+  }
+);
+
+// POST /events/:id/roles/accept - Accept current user's host invitation
+events.post("/:id/roles/accept", requireAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
-    const query = c.req.valid("query");
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const reviews = await getEventReviews(eventId, page, limit);
+    const user = c.get("user");
+
+    const eventRole = await acceptEventRole(eventId, user.id);
+    if (!eventRole) {
+      return c.json(
+        { success: false, error: "No pending role invitation" },
+        404
+      );
+    }
+
+    const event = await getEventById(eventId);
+    if (event?.event.organizerId) {
+      await createNotification({
+        userId: event.event.organizerId,
+        content: `${user.name || "Someone"} is now helping host "${event.event.title}"`,
+      });
+    }
 
     return c.json({
       success: true,
-      data: reviews,
+      data: eventRole,
+      message: "Role accepted successfully",
     });
   } catch (error) {
-    return c.json(
-      { success: false, error: "Failed to fetch event reviews" },
-      500
-    );
+    return c.json({ success: false, error: "Failed to accept role" }, 500);
   }
 });
 
-// POST /events - Create new event
-events.post("/", zValidator("json", createEventSchema), async (c) => {
-  try {
-    const eventData = c.req.valid("json");
-    const event = await createEvent({
-      ...eventData,
-      date: new Date(eventData.date),
-    });
+// PUT /events/:id/roles/:userId - Change host's role
+events.put(
+  "/:id/roles/:userId",
+  requireAuth,
+  zValidator("json", roleUpdateSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const userId = c.req.param("userId");
+      const { role } = c.req.valid("json");
 
-    return c.json(
-      {
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const eventRole = await updateEventRole(eventId, userId, role);
+      if (!eventRole) {
+        return c.json({ success: false, error: "Role not found" }, 404);
+      }
+
+      return c.json({
         success: true,
-        data: event,
-      },
-      201
-    );
-  } catch (error) {
-    return c.json({ success: false, error: "Failed to create event" }, 500);
+        data: eventRole,
+        message: "Role updated successfully",
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update role" }, 500);
+    }
   }
-});
+);
 
-// PUT /events/:id - Update event
-events.put("/:id", zValidator("json", updateEventSchema), async (c) => {
+// DELETE /events/:id/roles/:userId - Remove host, decline or step down
+events.delete("/:id/roles/:userId", requireAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
-    const updateData = c.req.valid("json");
+    const userId = c.req.param("userId");
 
-    // Check if event exists
     const existingEvent = await getEventById(eventId);
     if (!existingEvent) {
       return c.json({ success: false, error: "Event not found" }, 404);
     }
 
-    const updatePayload: {
-      title?: string;
-      description?: string;
-      date?: Date;
-      location?: string;
-      interests?: string[];
-    } = {};
-
-    if (updateData.title) updatePayload.title = updateData.title;
-    if (updateData.description)
-      updatePayload.description = updateData.description;
-    if (updateData.date) updatePayload.date = new Date(updateData.date);
-    if (updateData.location) updatePayload.location = updateData.location;
-    if (updateData.interests) updatePayload.interests = updateData.interests;
+    // Hosts may remove themselves; the organizer may remove anyone
+    const user = c.get("user");
+    if (
+      user.id !== userId &&
+      !canManage(user, existingEvent.event.organizerId)
+    ) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
 
-    const updatedEvent = await updateEvent(eventId, updatePayload);
+    const eventRole = await removeEventRole(eventId, userId);
+    if (!eventRole) {
+      return c.json({ success: false, error: "Role not found" }, 404);
+    }
 
     return c.json({
       success: true,
-      data: updatedEvent,
+      data: eventRole,
+      message: "Role removed successfully",
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to update event" }, 500);
+    return c.json({ success: false, error: "Failed to remove role" }, 500);
   }
 });
 
-// DELETE /events/:id - Delete event
-events.delete("/:id", async (c) => {
+// GET /events/:id/invite-links - Get event's invite links
+events.get("/:id/invite-links", requireAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
 
-    // Check if event exists
     const existingEvent = await getEventById(eventId);
     if (!existingEvent) {
       return c.json({ success: false, error: "Event not found" }, 404);
     }
 
-    const deletedEvent = await deleteEvent(eventId);
+    if (
+      !(await canManageEvent(
+        c.get("user"),
+        existingEvent.event,
+        "manage_participants"
+      ))
+    ) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    const inviteLinks = await getEventInviteLinks(eventId);
 
     return c.json({
       success: true,
-      data: deletedEvent,
-      message: "Event deleted successfully",
+      data: inviteLinks,
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to delete event" }, 500);
+    return c.json(
+      { success: false, error: "Failed to fetch invite links" },
+      500
+    );
   }
 });
 
-// POST /events/:id/join - Join event
-events.post("/:id/join", async (c) => {
+// POST /events/:id/invite-links - Create shareable invite link
+events.post(
+  "/:id/invite-links",
+  requireAuth,
+  zValidator("json", inviteLinkSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { expiresAt, maxUses } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Organizer, co-organizers and event moderators may share links
+      if (
+        !(await canManageEvent(
+          c.get("user"),
+          existingEvent.event,
+          "manage_participants"
+        ))
+      ) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      if (existingEvent.event.status === "cancelled") {
+        return c.json({ success: false, error: "Event is cancelled" }, 400);
+      }
+
+      // The token is only shown once; just its hash is stored
+      const token = generateToken();
+      const inviteLink = await createInviteLink({
+        eventId,
+        tokenHash: hashToken(token),
+        createdBy: c.get("user").id,
+        expiresAt: expiresAt
+          ? new Date(expiresAt)
+          : new Date(Date.now() + INVITE_LINK_TTL_MS),
+        maxUses,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: {
+            ...inviteLink,
+            token,
+            url: `${new URL(c.req.url).origin}/api/events/invite/${token}`,
+          },
+          message: "Invite link created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to create invite link" },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /events/:id/invite-links/:linkId - Revoke invite link
+events.delete("/:id/invite-links/:linkId", requireAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
-    const { userId } = await c.req.json();
+    const linkId = c.req.param("linkId");
 
-    if (!userId) {
-      return c.json({ success: false, error: "User ID is required" }, 400);
+    const existingEvent = await getEventById(eventId);
+    if (!existingEvent) {
+      return c.json({ success: false, error: "Event not found" }, 404);
     }
 
-    // Check if already participating
-    const isParticipating = await isUserParticipating(userId, eventId);
-    if (isParticipating) {
-      return c.json(
-        { success: false, error: "Already participating in this event" },
-        400
-      );
+    if (
+      !(await canManageEvent(
+        c.get("user"),
+        existingEvent.event,
+        "manage_participants"
+      ))
+    ) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
     }
 
-    const participation = await joinEvent(userId, eventId);
+    const inviteLink = await revokeInviteLink(eventId, linkId);
+    if (!inviteLink) {
+      return c.json({ success: false, error: "Invite link not found" }, 404);
+    }
 
     return c.json({
       success: true,
-      data: participation,
-      message: "Successfully joined event",
+      data: inviteLink,
+      message: "Invite link revoked successfully",
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to join event" }, 500);
+    return c.json(
+      { success: false, error: "Failed to revoke invite link" },
+      500
+    );
   }
 });
 
-// DELETE /events/:id/leave - Leave event
-events.delete("/:id/leave", async (c) => {
+// GET /events/:id/check-in-code - Get current user's check-in code
+events.get("/:id/check-in-code", requireAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
-    const { userId } = await c.req.json();
+    const userId = c.get("user").id;
 
-    if (!userId) {
-      return c.json({ success: false, error: "User ID is required" }, 400);
+    // Codes are only issued to people with a spot
+    const status = await getParticipationStatus(userId, eventId);
+    if (status !== "going") {
+      return c.json({ success: false, error: "Not attending this event" }, 404);
     }
 
-    const participation = await leaveEvent(userId, eventId);
-
     return c.json({
       success: true,
-      data: participation,
-      message: "Successfully left event",
+      data: { eventId, userId, code: createCheckInCode(eventId, userId) },
     });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to leave event" }, 500);
+    return c.json(
+      { success: false, error: "Failed to fetch check-in code" },
+      500
+    );
   }
 });
 
-// POST /events/:id/reviews - Add event review
-events.post("/:id/reviews", zValidator("json", reviewSchema), async (c) => {
+// POST /events/:id/check-in - Check in participant by scanned code
+events.post(
+  "/:id/check-in",
+  requireAuth,
+  zValidator("json", checkInSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const { code } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Any accepted host may check people in, including door staff
+      if (
+        !(await canManageEvent(c.get("user"), existingEvent.event, "check_in"))
+      ) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const checkInCode = verifyCheckInCode(code);
+      if (!checkInCode) {
+        return c.json({ success: false, error: "Invalid check-in code" }, 400);
+      }
+
+      if (checkInCode.eventId !== eventId) {
+        return c.json(
+          { success: false, error: "Check-in code is for another event" },
+          400
+        );
+      }
+
+      const result = await checkInParticipant(checkInCode.userId, eventId);
+
+      if (result.status === "not_attending") {
+        return c.json(
+          { success: false, error: "Not attending this event" },
+          404
+        );
+      }
+
+      const attendee = await getUserById(checkInCode.userId);
+
+      // Duplicate scan, e.g. a shared or screenshotted code
+      if (result.status === "already_checked_in") {
+        return c.json(
+          {
+            success: false,
+            error: "Already checked in",
+            data: { ...result.participation, user: attendee },
+          },
+          409
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { ...result.participation, user: attendee },
+        message: "Checked in successfully",
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to check in" }, 500);
+    }
+  }
+);
+
+// GET /events/:id/attendance - Get attendance report of joined vs checked in
+events.get(
+  "/:id/attendance",
+  requireAuth,
+  zValidator("query", attendanceQuerySchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      if (
+        !(await canManageEvent(c.get("user"), existingEvent.event, "check_in"))
+      ) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const { joined, checkedIn } = await getAttendanceSummary(eventId);
+      const attendees = await getEventAttendance(
+        eventId,
+        page,
+        limit,
+        query.checkedIn === undefined ? undefined : query.checkedIn === "true"
+      );
+
+      return c.json({
+        success: true,
+        data: {
+          joined,
+          checkedIn,
+          noShows: joined - checkedIn,
+          attendanceRate: joined > 0 ? checkedIn / joined : null,
+          attendees,
+        },
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch attendance" },
+        500
+      );
+    }
+  }
+);
+
+// GET /events/:id/ticket-types - Get event's ticket types with availability
+events.get("/:id/ticket-types", optionalAuth, async (c) => {
   try {
     const eventId = c.req.param("id");
-    const reviewData = c.req.valid("json");
-    const { userId } = await c.req.json();
+    const event = await getEventById(eventId);
 
-    if (!userId) {
-      return c.json({ success: false, error: "User ID is required" }, 400);
+    if (!event || !(await canViewEvent(c.get("user"), event.event))) {
+      return c.json({ success: false, error: "Event not found" }, 404);
     }
 
-    const review = await addEventReview({
-      eventId,
-      userId,
-      rating: reviewData.rating,
-      comment: reviewData.comment,
-    });
+    const ticketTypes = await getEventTicketTypes(eventId);
 
+    return c.json({
+      success: true,
+      data: ticketTypes,
+    });
+  } catch (error) {
     return c.json(
-      {
-        success: true,
-        data: review,
-        message: "Review added successfully",
-      },
-      201
+      { success: false, error: "Failed to fetch ticket types" },
+      500
     );
+  }
+});
+
+// POST /events/:id/ticket-types - Add ticket type to event
+events.post(
+  "/:id/ticket-types",
+  requireAuth,
+  zValidator("json", createTicketTypeSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const ticketTypeData = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      // Only the organizer or a moderator may sell tickets
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      if (existingEvent.event.status === "cancelled") {
+        return c.json({ success: false, error: "Event is cancelled" }, 400);
+      }
+
+      const ticketType = await createTicketType({
+        ...ticketTypeData,
+        eventId,
+        salesStartAt: ticketTypeData.salesStartAt
+          ? new Date(ticketTypeData.salesStartAt)
+          : undefined,
+        salesEndAt: ticketTypeData.salesEndAt
+          ? new Date(ticketTypeData.salesEndAt)
+          : undefined,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: ticketType,
+          message: "Ticket type created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to create ticket type" },
+        500
+      );
+    }
+  }
+);
+
+// PUT /events/:id/ticket-types/:ticketTypeId - Update ticket type
+events.put(
+  "/:id/ticket-types/:ticketTypeId",
+  requireAuth,
+  zValidator("json", updateTicketTypeSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const ticketTypeId = c.req.param("ticketTypeId");
+      const { salesStartAt, salesEndAt, ...updateData } = c.req.valid("json");
+
+      const existingEvent = await getEventById(eventId);
+      const existingTicketType = await getTicketTypeById(ticketTypeId);
+      if (
+        !existingEvent ||
+        !existingTicketType ||
+        existingTicketType.eventId !== eventId
+      ) {
+        return c.json({ success: false, error: "Ticket type not found" }, 404);
+      }
+
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      // Check the window the update leaves behind
+      const nextStart =
+        salesStartAt === undefined
+          ? existingTicketType.salesStartAt
+          : salesStartAt
+            ? new Date(salesStartAt)
+            : null;
+      const nextEnd =
+        salesEndAt === undefined
+          ? existingTicketType.salesEndAt
+          : salesEndAt
+            ? new Date(salesEndAt)
+            : null;
+      if (nextStart && nextEnd && nextEnd <= nextStart) {
+        return c.json(
+          { success: false, error: salesWindowMessage.message },
+          400
+        );
+      }
+
+      const result = await updateTicketType(ticketTypeId, {
+        ...updateData,
+        ...(salesStartAt !== undefined && { salesStartAt: nextStart }),
+        ...(salesEndAt !== undefined && { salesEndAt: nextEnd }),
+      });
+
+      if (result.status === "not_found") {
+        return c.json({ success: false, error: "Ticket type not found" }, 404);
+      }
+
+      if (result.status === "below_sold") {
+        return c.json(
+          {
+            success: false,
+            error: `Quantity cannot be below the ${result.sold} tickets sold`,
+          },
+          409
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: result.ticketType,
+        message: "Ticket type updated successfully",
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to update ticket type" },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /events/:id/ticket-types/:ticketTypeId - Delete unsold ticket type
+events.delete("/:id/ticket-types/:ticketTypeId", requireAuth, async (c) => {
+  try {
+    const eventId = c.req.param("id");
+    const ticketTypeId = c.req.param("ticketTypeId");
+
+    const existingEvent = await getEventById(eventId);
+    const existingTicketType = await getTicketTypeById(ticketTypeId);
+    if (
+      !existingEvent ||
+      !existingTicketType ||
+      existingTicketType.eventId !== eventId
+    ) {
+      return c.json({ success: false, error: "Ticket type not found" }, 404);
+    }
+
+    if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    const result = await deleteTicketType(ticketTypeId);
+
+    if (result.status === "not_found") {
+      return c.json({ success: false, error: "Ticket type not found" }, 404);
+    }
+
+    if (result.status === "has_orders") {
+      return c.json(
+        {
+          success: false,
+          error: "Ticket type has orders and cannot be deleted",
+        },
+        409
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.ticketType,
+      message: "Ticket type deleted successfully",
+    });
   } catch (error) {
-    return c.json({ success: false, error: "Failed to add review" }, 500);
+    return c.json(
+      { success: false, error: "Failed to delete ticket type" },
+      500
+    );
   }
 });
 
+// GET /events/:id/orders - Get event's ticket orders
+events.get(
+  "/:id/orders",
+  requireAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const eventId = c.req.param("id");
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+
+      const existingEvent = await getEventById(eventId);
+      if (!existingEvent) {
+        return c.json({ success: false, error: "Event not found" }, 404);
+      }
+
+      if (!canManage(c.get("user"), existingEvent.event.organizerId)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const orders = await getEventOrders(eventId, page, limit);
+
+      return c.json({
+        success: true,
+        data: orders,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to fetch orders" }, 500);
+    }
+  }
+);
+
 export { events };
@@ -13,15 +13,20 @@ import {
   isUserMember,
   getGroupMembers,
   getGroupsByCreator,
-  getUserGroups
+  getUserGroups,
+  getGroupEvents
 } from '../db/queries/groups';
+import { allowApiKeys, requireAuth } from '../middlewares/auth';
+import { canManage } from '../utils/permissions';
+import { ICAL_CONTENT_TYPE, MAX_FEED_EVENTS, buildCalendar } from '../utils/ical';
 
 const groups = new Hono();
 
+groups.use('*', allowApiKeys('groups'));
+
 // Validation schemas
 const createGroupSchema = z.object({
   name: z.string().min(1).max(100),
-  createdBy: z.string().uuid(),
 });
 
 const updateGroupSchema = z.object({
@@ -113,11 +118,52 @@ groups.get('/:id/members', zValidator('query', paginationSchema), async (c) => {
   }
 });
 
+// GET /groups/:id/events - Get events posted to group
+groups.get('/:id/events', zValidator('query', paginationSchema), async (c) => {
+  try {
+    const groupId = c.req.param('id');
+    const query = c.req.valid('query');
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const groupEvents = await getGroupEvents(groupId, page, limit);
+    
+    return c.json({
+      success: true,
+      data: groupEvents
+    });
+  } catch (error) {
+    return c.json({ success: false, error: 'Failed to fetch group events' }, 500);
+  }
+});
+
+// GET /groups/:id/calendar.ics - Subscribable iCalendar feed of group events
+groups.get('/:id/calendar.ics', async (c) => {
+  try {
+    const groupId = c.req.param('id');
+    const group = await getGroupById(groupId);
+    
+    if (!group) {
+      return c.json({ success: false, error: 'Group not found' }, 404);
+    }
+    
+    const groupEvents = await getGroupEvents(groupId, 1, MAX_FEED_EVENTS);
+    
+    return c.body(buildCalendar(group.group.name || 'LocalEve group', groupEvents), 200, {
+      'Content-Type': ICAL_CONTENT_TYPE
+    });
+  } catch (error) {
+    return c.json({ success: false, error: 'Failed to export group calendar' }, 500);
+  }
+});
+
 // POST /groups - Create new group
-groups.post('/', zValidator('json', createGroupSchema), async (c) => {
+groups.post('/', requireAuth, zValidator('json', createGroupSchema), async (c) => {
   try {
     const groupData = c.req.valid('json');
-    const group = await createGroup(groupData);
+    const group = await createGroup({
+      ...groupData,
+      createdBy: c.get('user').id
+    });
     
     return c.json({
       success: true,
@@ -129,7 +175,7 @@ groups.post('/', zValidator('json', createGroupSchema), async (c) => {
 });
 
 // PUT /groups/:id - Update group
-groups.put('/:id', zValidator('json', updateGroupSchema), async (c) => {
+groups.put('/:id', requireAuth, zValidator('json', updateGroupSchema), async (c) => {
   try {
     const groupId = c.req.param('id');
     const updateData = c.req.valid('json');
@@ -140,6 +186,11 @@ groups.put('/:id', zValidator('json', updateGroupSchema), async (c) => {
       return c.json({ success: false, error: 'Group not found' }, 404);
     }
     
+    // Only the creator or a moderator may edit the group
+    if (!canManage(c.get('user'), existingGroup.group.createdBy)) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const updatedGroup = await updateGroup(groupId, updateData);
     
     return c.json({
@@ -152,7 +203,7 @@ groups.put('/:id', zValidator('json', updateGroupSchema), async (c) => {
 });
 
 // DELETE /groups/:id - Delete group
-groups.delete('/:id', async (c) => {
+groups.delete('/:id', requireAuth, async (c) => {
   try {
     const groupId = c.req.param('id');
     
@@ -162,6 +213,11 @@ groups.delete('/:id', async (c) => {
       return c.json({ success: false, error: 'Group not found' }, 404);
     }
     
+    // Only the creator or a moderator may delete the group
+    if (!canManage(c.get('user'), existingGroup.group.createdBy)) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const deletedGroup = await deleteGroup(groupId);
     
     return c.json({
@@ -175,14 +231,10 @@ groups.delete('/:id', async (c) => {
 });
 
 // POST /groups/:id/join - Join group
-groups.post('/:id/join', async (c) => {
+groups.post('/:id/join', requireAuth, async (c) => {
   try {
     const groupId = c.req.param('id');
-    const { userId } = await c.req.json();
-    
-    if (!userId) {
-      return c.json({ success: false, error: 'User ID is required' }, 400);
-    }
+    const userId = c.get('user').id;
     
     // Check if already a member
     const isMember = await isUserMember(userId, groupId);
@@ -203,14 +255,10 @@ groups.post('/:id/join', async (c) => {
 });
 
 // DELETE /groups/:id/leave - Leave group
-groups.delete('/:id/leave', async (c) => {
+groups.delete('/:id/leave', requireAuth, async (c) => {
   try {
     const groupId = c.req.param('id');
-    const { userId } = await c.req.json();
-    
-    if (!userId) {
-      return c.json({ success: false, error: 'User ID is required' }, 400);
-    }
+    const userId = c.get('user').id;
     
     const membership = await leaveGroup(userId, groupId);
     
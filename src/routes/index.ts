@@ -4,4 +4,6 @@ export * from './groups';
 export * from './auth';
 export * from './social';
 export * from './notifications';
-export * from './verification'; 
\ No newline at end of file
+export * from './verification';
+export * from './venues';
+export * from './orders'; 
\ No newline at end of file
@@ -9,8 +9,11 @@ import {
   markAllNotificationsAsRead,
   deleteNotification,
   getNotificationCount,
-  getUnreadNotificationCount
+  getUnreadNotificationCount,
+  getNotificationById
 } from '../db/queries/notifications';
+import { requireAuth } from '../middlewares/auth';
+import { canManage } from '../utils/permissions';
 
 const notifications = new Hono();
 
@@ -27,9 +30,15 @@ const paginationSchema = z.object({
 });
 
 // GET /notifications/user/:userId - Get user's notifications
-notifications.get('/user/:userId', zValidator('query', paginationSchema), async (c) => {
+notifications.get('/user/:userId', requireAuth, zValidator('query', paginationSchema), async (c) => {
   try {
     const userId = c.req.param('userId');
+    
+    // Users only see their own notifications
+    if (!canManage(c.get('user'), userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const query = c.req.valid('query');
     const page = query.page || 1;
     const limit = query.limit || 10;
@@ -45,9 +54,15 @@ notifications.get('/user/:userId', zValidator('query', paginationSchema), async
 });
 
 // GET /notifications/user/:userId/unread - Get unread notifications
-notifications.get('/user/:userId/unread', zValidator('query', paginationSchema), async (c) => {
+notifications.get('/user/:userId/unread', requireAuth, zValidator('query', paginationSchema), async (c) => {
   try {
     const userId = c.req.param('userId');
+    
+    // Users only see their own notifications
+    if (!canManage(c.get('user'), userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const query = c.req.valid('query');
     const page = query.page || 1;
     const limit = query.limit || 10;
@@ -63,9 +78,15 @@ notifications.get('/user/:userId/unread', zValidator('query', paginationSchema),
 });
 
 // GET /notifications/user/:userId/count - Get notification count
-notifications.get('/user/:userId/count', async (c) => {
+notifications.get('/user/:userId/count', requireAuth, async (c) => {
   try {
     const userId = c.req.param('userId');
+    
+    // Users only see their own notifications
+    if (!canManage(c.get('user'), userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const totalCount = await getNotificationCount(userId);
     const unreadCount = await getUnreadNotificationCount(userId);
     
@@ -97,9 +118,20 @@ notifications.post('/', zValidator('json', createNotificationSchema), async (c)
 });
 
 // PUT /notifications/:id/read - Mark notification as read
-notifications.put('/:id/read', async (c) => {
+notifications.put('/:id/read', requireAuth, async (c) => {
   try {
     const notificationId = c.req.param('id');
+    
+    const existingNotification = await getNotificationById(notificationId);
+    if (!existingNotification) {
+      return c.json({ success: false, error: 'Notification not found' }, 404);
+    }
+    
+    // Only the recipient may mark a notification as read
+    if (!canManage(c.get('user'), existingNotification.userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const notification = await markNotificationAsRead(notificationId);
     
     return c.json({
@@ -113,9 +145,15 @@ notifications.put('/:id/read', async (c) => {
 });
 
 // PUT /notifications/user/:userId/read-all - Mark all notifications as read
-notifications.put('/user/:userId/read-all', async (c) => {
+notifications.put('/user/:userId/read-all', requireAuth, async (c) => {
   try {
     const userId = c.req.param('userId');
+    
+    // Only the recipient may mark notifications as read
+    if (!canManage(c.get('user'), userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const notifications = await markAllNotificationsAsRead(userId);
     
     return c.json({
@@ -129,9 +167,20 @@ notifications.put('/user/:userId/read-all', async (c) => {
 });
 
 // DELETE /notifications/:id - Delete notification
-notifications.delete('/:id', async (c) => {
+notifications.delete('/:id', requireAuth, async (c) => {
   try {
     const notificationId = c.req.param('id');
+    
+    const existingNotification = await getNotificationById(notificationId);
+    if (!existingNotification) {
+      return c.json({ success: false, error: 'Notification not found' }, 404);
+    }
+    
+    // The recipient or an admin may delete a notification
+    if (!canManage(c.get('user'), existingNotification.userId, ['admin'])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const notification = await deleteNotification(notificationId);
     
     return c.json({
@@ -0,0 +1,196 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { eq, sql } from "drizzle-orm";
+import { eventWaitlist, ticketOrders, ticketTypes, users } from "../db/schema";
+import type { PaymentProvider } from "../services/payments";
+
+// In-process Postgres with the real migrations, standing in for the pool
+const client = new PGlite();
+const testDb = drizzle(client, { casing: "snake_case" });
+
+mock.module("../db/db", () => ({ db: testDb, pool: client }));
+
+process.env.JWT_SECRET = "test-secret";
+
+// Loaded once the mock is in place
+let app: { fetch: (request: Request) => Response | Promise<Response> };
+let payments: typeof import("../services/payments");
+let eventQueries: typeof import("../db/queries/events");
+let ticketQueries: typeof import("../db/queries/tickets");
+let signAccessToken: typeof import("../utils/jwt").signAccessToken;
+
+let provider: ReturnType<
+  typeof import("../services/payments").createFakePaymentProvider
+>;
+let organizerToken: string;
+let buyerToken: string;
+let eventId: string;
+let ticketTypeId: string;
+
+beforeAll(async () => {
+  await migrate(testDb, { migrationsFolder: "drizzle" });
+
+  ({ default: app } = await import("../index"));
+  payments = await import("../services/payments");
+  eventQueries = await import("../db/queries/events");
+  ticketQueries = await import("../db/queries/tickets");
+  ({ signAccessToken } = await import("../utils/jwt"));
+});
+
+beforeEach(async () => {
+  await testDb.execute(sql`truncate table ${users} cascade`);
+
+  provider = payments.createFakePaymentProvider();
+  payments.setPaymentProvider(provider);
+
+  const [organizer, buyer] = await testDb
+    .insert(users)
+    .values([
+      { name: "Organizer", email: "organizer@example.com" },
+      { name: "Buyer", email: "buyer@example.com" },
+    ])
+    .returning();
+  organizerToken = await signAccessToken(organizer.id);
+  buyerToken = await signAccessToken(buyer.id);
+
+  const event = await eventQueries.createEvent({
+    title: "Concert",
+    description: "Live music",
+    date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    organizerId: organizer.id,
+    capacity: 1,
+    status: "published",
+  });
+  eventId = event.id;
+
+  const ticketType = await ticketQueries.createTicketType({
+    eventId,
+    name: "General admission",
+    priceCents: 2500,
+    currency: "EUR",
+    quantity: 10,
+  });
+  ticketTypeId = ticketType.id;
+});
+
+const request = (path: string, token: string, body?: unknown) =>
+  app.fetch(
+    new Request(`http://localhost${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  );
+
+// Buy a ticket as the buyer and return the completed order's ID
+const buyTicket = async () => {
+  const response = await request("/api/orders", buyerToken, { ticketTypeId });
+  expect(response.status).toBe(201);
+
+  return (await response.json()).data.id as string;
+};
+
+const refund = (orderId: string) =>
+  request(`/api/orders/${orderId}/refund`, organizerToken, {});
+
+const getOrderStatus = async (orderId: string) => {
+  const response = await request(`/api/orders/${orderId}`, organizerToken);
+
+  return (await response.json()).data.order.status;
+};
+
+describe("POST /api/orders", () => {
+  test("fails abandoned pending orders and sells their spot", async () => {
+    // Checkout that never finished, holding the event's only spot
+    const [abandoner] = await testDb
+      .insert(users)
+      .values({ name: "Abandoner", email: "abandoner@example.com" })
+      .returning();
+    const [abandonedOrder] = await testDb
+      .insert(ticketOrders)
+      .values({
+        userId: abandoner.id,
+        eventId,
+        ticketTypeId,
+        amountCents: 2500,
+        currency: "EUR",
+        expiresAt: new Date(Date.now() - 1000),
+      })
+      .returning();
+    await testDb
+      .update(ticketTypes)
+      .set({ quantitySold: 1 })
+      .where(eq(ticketTypes.id, ticketTypeId));
+
+    await buyTicket();
+
+    expect(await getOrderStatus(abandonedOrder.id)).toBe("failed");
+    const [ticketType] = await testDb
+      .select({ quantitySold: ticketTypes.quantitySold })
+      .from(ticketTypes)
+      .where(eq(ticketTypes.id, ticketTypeId));
+    expect(ticketType.quantitySold).toBe(1);
+  });
+});
+
+describe("POST /api/orders/:id/refund", () => {
+  test("keeps the order refundable when the provider fails", async () => {
+    const orderId = await buyTicket();
+    const failingProvider: PaymentProvider = {
+      ...provider,
+      async refund() {
+        throw new Error("Provider down");
+      },
+    };
+    payments.setPaymentProvider(failingProvider);
+
+    expect((await refund(orderId)).status).toBe(502);
+    expect(await getOrderStatus(orderId)).toBe("completed");
+
+    payments.setPaymentProvider(provider);
+
+    expect((await refund(orderId)).status).toBe(200);
+    expect(await getOrderStatus(orderId)).toBe("refunded");
+  });
+
+  test("pays out concurrent refunds of one order once", async () => {
+    const orderId = await buyTicket();
+    let refundCalls = 0;
+    payments.setPaymentProvider({
+      ...provider,
+      async refund(paymentId, amountCents) {
+        refundCalls++;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await provider.refund(paymentId, amountCents);
+      },
+    });
+
+    const responses = await Promise.all([refund(orderId), refund(orderId)]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 409,
+    ]);
+    expect(refundCalls).toBe(1);
+  });
+
+  test("gives the freed spot to the next waitlisted user", async () => {
+    const orderId = await buyTicket();
+    const [waitlisted] = await testDb
+      .insert(users)
+      .values({ name: "Waitlisted", email: "waitlisted@example.com" })
+      .returning();
+    await testDb
+      .insert(eventWaitlist)
+      .values({ userId: waitlisted.id, eventId });
+
+    expect((await refund(orderId)).status).toBe(200);
+    expect(
+      await eventQueries.getParticipationStatus(waitlisted.id, eventId)
+    ).toBe("going");
+  });
+});
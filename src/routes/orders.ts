@@ -0,0 +1,324 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import {
+  getTicketTypeById,
+  reserveTicket,
+  completeOrder,
+  failOrder,
+  getOrderById,
+  getUserOrders,
+} from "../db/queries/tickets";
+import { getEventById, getParticipationStatus } from "../db/queries/events";
+import { createNotification } from "../db/queries/notifications";
+import { requireAuth } from "../middlewares/auth";
+import { canManage } from "../utils/permissions";
+import { getPaymentProvider } from "../services/payments";
+import { refundTicketOrder } from "../services/refunds";
+
+const orders = new Hono();
+
+// Validation schemas
+const createOrderSchema = z.object({
+  ticketTypeId: z.string().uuid(),
+  // Passed through to the payment provider; not needed for free tickets
+  paymentMethod: z.string().min(1).max(255).optional(),
+});
+
+const paginationSchema = z.object({
+  page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1).max(100))
+    .optional(),
+});
+
+// POST /orders - Buy ticket for current user
+orders.post(
+  "/",
+  requireAuth,
+  zValidator("json", createOrderSchema),
+  async (c) => {
+    try {
+      const { ticketTypeId, paymentMethod } = c.req.valid("json");
+      const userId = c.get("user").id;
+
+      const ticketType = await getTicketTypeById(ticketTypeId);
+      const event = ticketType && (await getEventById(ticketType.eventId));
+      if (!ticketType || !event || event.event.status === "draft") {
+        return c.json({ success: false, error: "Ticket type not found" }, 404);
+      }
+
+      // Tickets to private events are only sold to invited users
+      if (
+        event.event.visibility === "private" &&
+        !canManage(c.get("user"), event.event.organizerId) &&
+        (await getParticipationStatus(userId, event.event.id)) === null
+      ) {
+        return c.json({ success: false, error: "Ticket type not found" }, 404);
+      }
+
+      if (event.event.status === "cancelled") {
+        return c.json({ success: false, error: "Event is cancelled" }, 400);
+      }
+
+      if (event.event.status !== "published") {
+        return c.json(
+          { success: false, error: "Tickets are not on sale" },
+          400
+        );
+      }
+
+      // Paid tickets need a real provider; the fake one is opt-in
+      if (ticketType.priceCents > 0 && !getPaymentProvider()) {
+        return c.json(
+          { success: false, error: "Payments are not available" },
+          503
+        );
+      }
+
+      const result = await reserveTicket(userId, ticketTypeId);
+
+      if (result.status === "not_found") {
+        return c.json({ success: false, error: "Ticket type not found" }, 404);
+      }
+
+      if (result.status === "not_on_sale") {
+        return c.json(
+          { success: false, error: "Tickets are not on sale" },
+          400
+        );
+      }
+
+      if (result.status === "sold_out") {
+        return c.json({ success: false, error: "Tickets are sold out" }, 409);
+      }
+
+      if (result.status === "full") {
+        return c.json({ success: false, error: "Event is full" }, 409);
+      }
+
+      if (result.status === "already_ordered") {
+        return c.json(
+          { success: false, error: "Already holding a ticket for this event" },
+          409
+        );
+      }
+
+      const { order } = result;
+
+      // Free tickets complete without a payment
+      if (order.amountCents === 0) {
+        const completedOrder = await completeOrder(order.id, {
+          provider: null,
+          paymentId: null,
+        });
+
+        return c.json(
+          {
+            success: true,
+            data: completedOrder,
+            message: "Ticket ordered successfully",
+          },
+          201
+        );
+      }
+
+      const provider = getPaymentProvider();
+      if (!provider) {
+        await failOrder(order.id, {
+          provider: null,
+          failureReason: "Payments are not available",
+        });
+        return c.json(
+          { success: false, error: "Payments are not available" },
+          503
+        );
+      }
+
+      let payment;
+      try {
+        payment = await provider.charge({
+          amountCents: order.amountCents,
+          currency: order.currency,
+          description: `${result.ticketType.name} ticket for "${event.event.title}"`,
+          paymentMethod,
+        });
+      } catch (error) {
+        await failOrder(order.id, {
+          provider: provider.name,
+          failureReason: "Payment provider unavailable",
+        });
+        return c.json(
+          { success: false, error: "Payment provider unavailable" },
+          502
+        );
+      }
+
+      if (payment.status === "failed") {
+        const failedOrder = await failOrder(order.id, {
+          provider: provider.name,
+          paymentId: payment.paymentId,
+          failureReason: payment.failureReason,
+        });
+
+        return c.json(
+          {
+            success: false,
+            error: "Payment failed",
+            message: payment.failureReason,
+            data: failedOrder,
+          },
+          402
+        );
+      }
+
+      const completedOrder = await completeOrder(order.id, {
+        provider: provider.name,
+        paymentId: payment.paymentId,
+      });
+
+      // The order expired while the payment went through and its ticket may
+      // be sold again; give the money back
+      if (!completedOrder) {
+        await provider.refund(payment.paymentId, order.amountCents);
+        return c.json(
+          { success: false, error: "Order expired, the payment was refunded" },
+          409
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: completedOrder,
+          message: "Ticket ordered successfully",
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to order ticket" }, 500);
+    }
+  }
+);
+
+// GET /orders - Get current user's orders
+orders.get(
+  "/",
+  requireAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const userOrders = await getUserOrders(c.get("user").id, page, limit);
+
+      return c.json({
+        success: true,
+        data: userOrders,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to fetch orders" }, 500);
+    }
+  }
+);
+
+// GET /orders/:id - Get order by ID
+orders.get("/:id", requireAuth, async (c) => {
+  try {
+    const orderId = c.req.param("id");
+    const order = await getOrderById(orderId);
+
+    // Visible to the buyer and the event's organizer
+    const user = c.get("user");
+    if (
+      !order ||
+      !(
+        canManage(user, order.order.userId) ||
+        canManage(user, order.event.organizerId)
+      )
+    ) {
+      return c.json({ success: false, error: "Order not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: order,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch order" }, 500);
+  }
+});
+
+// POST /orders/:id/refund - Refund order and remove the buyer's participation
+orders.post("/:id/refund", requireAuth, async (c) => {
+  try {
+    const orderId = c.req.param("id");
+    const existingOrder = await getOrderById(orderId);
+
+    if (!existingOrder) {
+      return c.json({ success: false, error: "Order not found" }, 404);
+    }
+
+    // Only the organizer or a moderator may refund
+    if (!canManage(c.get("user"), existingOrder.event.organizerId)) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    if (existingOrder.order.status !== "completed") {
+      return c.json(
+        { success: false, error: "Only completed orders can be refunded" },
+        409
+      );
+    }
+
+    const result = await refundTicketOrder(orderId);
+
+    if (result.status === "not_refundable") {
+      return c.json(
+        { success: false, error: "Only completed orders can be refunded" },
+        409
+      );
+    }
+
+    if (result.status === "unavailable") {
+      return c.json(
+        { success: false, error: "Payments are not available" },
+        503
+      );
+    }
+
+    if (result.status === "provider_error") {
+      return c.json(
+        { success: false, error: "Payment provider unavailable" },
+        502
+      );
+    }
+
+    const refundedOrder = result.order;
+
+    await createNotification({
+      userId: refundedOrder.userId,
+      content: `Your ticket for "${existingOrder.event.title}" has been refunded`,
+    });
+
+    for (const participation of result.promoted) {
+      await createNotification({
+        userId: participation.userId,
+        content: `A spot opened up and you are now attending "${existingOrder.event.title}"`,
+      });
+    }
+
+    return c.json({
+      success: true,
+      data: refundedOrder,
+      message: "Order refunded successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to refund order" }, 500);
+  }
+});
+
+export { orders };
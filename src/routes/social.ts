@@ -11,20 +11,21 @@ import {
   updateReview,
   deleteReview,
   getUserReviews,
+  getReviewById,
   hasUserReviewedEvent
 } from '../db/queries/social';
+import { requireAuth } from '../middlewares/auth';
+import { canManage } from '../utils/permissions';
 
 const social = new Hono();
 
 // Validation schemas
 const followSchema = z.object({
-  followerId: z.string().uuid(),
   followingId: z.string().uuid(),
 });
 
 const reviewSchema = z.object({
   eventId: z.string().uuid(),
-  userId: z.string().uuid(),
   rating: z.number().min(1).max(5),
   comment: z.string().min(1),
 });
@@ -40,9 +41,10 @@ const paginationSchema = z.object({
 });
 
 // POST /social/follow - Follow user
-social.post('/follow', zValidator('json', followSchema), async (c) => {
+social.post('/follow', requireAuth, zValidator('json', followSchema), async (c) => {
   try {
-    const { followerId, followingId } = c.req.valid('json');
+    const { followingId } = c.req.valid('json');
+    const followerId = c.get('user').id;
     
     // Prevent self-follow
     if (followerId === followingId) {
@@ -68,9 +70,10 @@ social.post('/follow', zValidator('json', followSchema), async (c) => {
 });
 
 // DELETE /social/unfollow - Unfollow user
-social.delete('/unfollow', zValidator('json', followSchema), async (c) => {
+social.delete('/unfollow', requireAuth, zValidator('json', followSchema), async (c) => {
   try {
-    const { followerId, followingId } = c.req.valid('json');
+    const { followingId } = c.req.valid('json');
+    const followerId = c.get('user').id;
     
     const unfollow = await unfollowUser(followerId, followingId);
     
@@ -138,17 +141,18 @@ social.get('/following/:followerId/:followingId', async (c) => {
 });
 
 // POST /social/reviews - Add review
-social.post('/reviews', zValidator('json', reviewSchema), async (c) => {
+social.post('/reviews', requireAuth, zValidator('json', reviewSchema), async (c) => {
   try {
     const reviewData = c.req.valid('json');
+    const userId = c.get('user').id;
     
     // Check if user has already reviewed this event
-    const hasReviewed = await hasUserReviewedEvent(reviewData.userId, reviewData.eventId);
+    const hasReviewed = await hasUserReviewedEvent(userId, reviewData.eventId);
     if (hasReviewed) {
       return c.json({ success: false, error: 'Already reviewed this event' }, 400);
     }
     
-    const review = await addReview(reviewData);
+    const review = await addReview({ ...reviewData, userId });
     
     return c.json({
       success: true,
@@ -161,11 +165,21 @@ social.post('/reviews', zValidator('json', reviewSchema), async (c) => {
 });
 
 // PUT /social/reviews/:reviewId - Update review
-social.put('/reviews/:reviewId', zValidator('json', updateReviewSchema), async (c) => {
+social.put('/reviews/:reviewId', requireAuth, zValidator('json', updateReviewSchema), async (c) => {
   try {
     const reviewId = c.req.param('reviewId');
     const updateData = c.req.valid('json');
     
+    const existingReview = await getReviewById(reviewId);
+    if (!existingReview) {
+      return c.json({ success: false, error: 'Review not found' }, 404);
+    }
+    
+    // Only the author may edit a review
+    if (!canManage(c.get('user'), existingReview.userId, [])) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const review = await updateReview(reviewId, updateData);
     
     return c.json({
@@ -179,10 +193,20 @@ social.put('/reviews/:reviewId', zValidator('json', updateReviewSchema), async (
 });
 
 // DELETE /social/reviews/:reviewId - Delete review
-social.delete('/reviews/:reviewId', async (c) => {
+social.delete('/reviews/:reviewId', requireAuth, async (c) => {
   try {
     const reviewId = c.req.param('reviewId');
     
+    const existingReview = await getReviewById(reviewId);
+    if (!existingReview) {
+      return c.json({ success: false, error: 'Review not found' }, 404);
+    }
+    
+    // The author or a moderator may remove a review
+    if (!canManage(c.get('user'), existingReview.userId)) {
+      return c.json({ success: false, error: 'Forbidden' }, 403);
+    }
+    
     const review = await deleteReview(reviewId);
     
     return c.json({
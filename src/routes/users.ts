@@ -8,12 +8,29 @@ import {
   getUserByUsername,
   createUser,
   updateUser,
+  updateUserRole,
   deleteUser,
   searchUsers,
   getUserProfile,
   getUserEvents,
   getUserParticipations,
 } from "../db/queries/users";
+import {
+  getCalendarFeedByHash,
+  touchCalendarFeed,
+} from "../db/queries/calendar_feeds";
+import { optionalAuth, requireAuth, requireRole } from "../middlewares/auth";
+import { sendVerificationEmail } from "../services/auth_emails";
+import { canManage } from "../utils/permissions";
+import { ROLES } from "../types/auth";
+import { hashToken } from "../utils/tokens";
+import {
+  ICAL_CONTENT_TYPE,
+  MAX_FEED_EVENTS,
+  buildCalendar,
+  type IcalEvent,
+} from "../utils/ical";
+import { logError } from "../utils/logger";
 
 const users = new Hono();
 
@@ -34,6 +51,10 @@ const updateUserSchema = z.object({
   image: z.string().url().max(500).optional(),
 });
 
+const updateRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
 const searchSchema = z.object({
   q: z.string().min(1),
   page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
@@ -90,6 +111,52 @@ users.get("/search", zValidator("query", searchSchema), async (c) => {
   }
 });
 
+// GET /users/calendar/:token.ics - Subscribable feed of joined and organized events
+users.get("/calendar/:file{[A-Za-z0-9_-]+\\.ics}", async (c) => {
+  try {
+    const token = c.req.param("file").replace(/\.ics$/, "");
+    const feed = await getCalendarFeedByHash(hashToken(token));
+
+    if (!feed) {
+      return c.json({ success: false, error: "Calendar feed not found" }, 404);
+    }
+
+    const [user, organized, participations] = await Promise.all([
+      getUserById(feed.userId),
+      getUserEvents(feed.userId, 1, MAX_FEED_EVENTS, feed.userId),
+      getUserParticipations(feed.userId, 1, MAX_FEED_EVENTS, feed.userId),
+    ]);
+
+    // Organized events win over the organizer's own RSVP to them; events
+    // taken back to draft drop out of the feed
+    const feedEvents = new Map<string, IcalEvent>();
+    participations.forEach(({ event, status }) => {
+      const listed =
+        event.status === "published" || event.status === "cancelled";
+      if (listed && (status === "going" || status === "maybe")) {
+        feedEvents.set(event.id, { ...event, tentative: status === "maybe" });
+      }
+    });
+    organized.forEach((event) => feedEvents.set(event.id, event));
+
+    await touchCalendarFeed(feed.userId);
+
+    return c.body(
+      buildCalendar(
+        `LocalEve - ${user?.name || "My events"}`,
+        Array.from(feedEvents.values())
+      ),
+      200,
+      { "Content-Type": ICAL_CONTENT_TYPE }
+    );
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to export calendar feed" },
+      500
+    );
+  }
+});
+
 // GET /users/:id - Get user by ID
 users.get("/:id", async (c) => {
   try {
@@ -132,29 +199,40 @@ users.get("/:id/profile", async (c) => {
 });
 
 // GET /users/:id/events - Get user's events
-users.get("/:id/events", zValidator("query", paginationSchema), async (c) => {
-  try {
-    const userId = c.req.param("id");
-    const query = c.req.valid("query");
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const events = await getUserEvents(userId, page, limit);
+users.get(
+  "/:id/events",
+  optionalAuth,
+  zValidator("query", paginationSchema),
+  async (c) => {
+    try {
+      const userId = c.req.param("id");
+      const query = c.req.valid("query");
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const events = await getUserEvents(
+        userId,
+        page,
+        limit,
+        c.get("user")?.id
+      );
 
-    return c.json({
-      success: true,
-      data: events,
-    });
-  } catch (error) {
-    return c.json(
-      { success: false, error: "Failed to fetch user events" },
-      500
-    );
+      return c.json({
+        success: true,
+        data: events,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to fetch user events" },
+        500
+      );
+    }
   }
-});
+);
 
 // GET /users/:id/participations - Get user's event participations
 users.get(
   "/:id/participations",
+  optionalAuth,
   zValidator("query", paginationSchema),
   async (c) => {
     try {
@@ -162,7 +240,12 @@ users.get(
       const query = c.req.valid("query");
       const page = query.page || 1;
       const limit = query.limit || 10;
-      const participations = await getUserParticipations(userId, page, limit);
+      const participations = await getUserParticipations(
+        userId,
+        page,
+        limit,
+        c.get("user")?.id
+      );
 
       return c.json({
         success: true,
@@ -177,86 +260,152 @@ users.get(
   }
 );
 
-// POST /users - Create new user
-users.post("/", zValidator("json", createUserSchema), async (c) => {
-  try {
-    const userData = c.req.valid("json");
+// POST /users - Create new user (admin)
+users.post(
+  "/",
+  requireAuth,
+  requireRole("admin"),
+  zValidator("json", createUserSchema),
+  async (c) => {
+    try {
+      const userData = c.req.valid("json");
 
-    // Check if email already exists
-    const existingUser = await getUserByEmail(userData.email);
-    if (existingUser) {
-      return c.json({ success: false, error: "Email already exists" }, 400);
-    }
+      // Check if email already exists
+      const existingUser = await getUserByEmail(userData.email);
+      if (existingUser) {
+        return c.json({ success: false, error: "Email already exists" }, 400);
+      }
 
-    // Check if username already exists (if provided)
-    if (userData.username) {
-      const existingUsername = await getUserByUsername(userData.username);
-      if (existingUsername) {
-        return c.json(
-          { success: false, error: "Username already exists" },
-          400
-        );
+      // Check if username already exists (if provided)
+      if (userData.username) {
+        const existingUsername = await getUserByUsername(userData.username);
+        if (existingUsername) {
+          return c.json(
+            { success: false, error: "Username already exists" },
+            400
+          );
+        }
       }
-    }
 
-    const user = await createUser(userData);
+      const user = await createUser(userData);
 
-    return c.json(
-      {
-        success: true,
-        data: user,
-      },
-      201
-    );
-  } catch (error) {
-    return c.json({ success: false, error: "Failed to create user" }, 500);
+      return c.json(
+        {
+          success: true,
+          data: user,
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to create user" }, 500);
+    }
   }
-});
+);
 
 // PUT /users/:id - Update user
-users.put("/:id", zValidator("json", updateUserSchema), async (c) => {
-  try {
-    const userId = c.req.param("id");
-    const updateData = c.req.valid("json");
+users.put(
+  "/:id",
+  requireAuth,
+  zValidator("json", updateUserSchema),
+  async (c) => {
+    try {
+      const userId = c.req.param("id");
+      const updateData = c.req.valid("json");
 
-    // Check if user exists
-    const existingUser = await getUserById(userId);
-    if (!existingUser) {
-      return c.json({ success: false, error: "User not found" }, 404);
-    }
+      // Check if user exists
+      const existingUser = await getUserById(userId);
+      if (!existingUser) {
+        return c.json({ success: false, error: "User not found" }, 404);
+      }
 
-    // Check if email already exists (if updating email)
-    if (updateData.email && updateData.email !== existingUser.email) {
-      const emailExists = await getUserByEmail(updateData.email);
-      if (emailExists) {
-        return c.json({ success: false, error: "Email already exists" }, 400);
+      // Users may only edit their own profile unless they are an admin
+      if (!canManage(c.get("user"), existingUser.id, ["admin"])) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
       }
-    }
 
-    // Check if username already exists (if updating username)
-    if (updateData.username && updateData.username !== existingUser.username) {
-      const usernameExists = await getUserByUsername(updateData.username);
-      if (usernameExists) {
-        return c.json(
-          { success: false, error: "Username already exists" },
-          400
-        );
+      // Check if email already exists (if updating email)
+      if (updateData.email && updateData.email !== existingUser.email) {
+        const emailExists = await getUserByEmail(updateData.email);
+        if (emailExists) {
+          return c.json({ success: false, error: "Email already exists" }, 400);
+        }
+      }
+
+      // Check if username already exists (if updating username)
+      if (
+        updateData.username &&
+        updateData.username !== existingUser.username
+      ) {
+        const usernameExists = await getUserByUsername(updateData.username);
+        if (usernameExists) {
+          return c.json(
+            { success: false, error: "Username already exists" },
+            400
+          );
+        }
+      }
+
+      // A new email address has to be verified again
+      const emailChanged =
+        updateData.email && updateData.email !== existingUser.email;
+
+      const updatedUser = await updateUser(userId, {
+        ...updateData,
+        ...(emailChanged && { emailVerifiedAt: null }),
+      });
+
+      // A mail outage should not fail the update itself
+      if (emailChanged && updatedUser) {
+        try {
+          await sendVerificationEmail(updatedUser);
+        } catch (error) {
+          logError("Failed to send verification email:", error);
+        }
       }
+
+      return c.json({
+        success: true,
+        data: updatedUser,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update user" }, 500);
     }
+  }
+);
 
-    const updatedUser = await updateUser(userId, updateData);
+// PUT /users/:id/role - Change user role (admin)
+users.put(
+  "/:id/role",
+  requireAuth,
+  requireRole("admin"),
+  zValidator("json", updateRoleSchema),
+  async (c) => {
+    try {
+      const userId = c.req.param("id");
+      const { role } = c.req.valid("json");
 
-    return c.json({
-      success: true,
-      data: updatedUser,
-    });
-  } catch (error) {
-    return c.json({ success: false, error: "Failed to update user" }, 500);
+      const existingUser = await getUserById(userId);
+      if (!existingUser) {
+        return c.json({ success: false, error: "User not found" }, 404);
+      }
+
+      const updatedUser = await updateUserRole(userId, role);
+
+      return c.json({
+        success: true,
+        data: updatedUser,
+      });
+    } catch (error) {
+      return c.json(
+        { success: false, error: "Failed to update user role" },
+        500
+      );
+    }
   }
-});
+);
 
 // DELETE /users/:id - Delete user
-users.delete("/:id", async (c) => {
+users.delete("/:id", requireAuth, async (c) => {
   try {
     const userId = c.req.param("id");
 
@@ -266,6 +415,11 @@ users.delete("/:id", async (c) => {
       return c.json({ success: false, error: "User not found" }, 404);
     }
 
+    // Users may only delete their own account unless they are an admin
+    if (!canManage(c.get("user"), existingUser.id, ["admin"])) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
     const deletedUser = await deleteUser(userId);
 
     return c.json({
@@ -0,0 +1,258 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import {
+  getAllVenues,
+  getVenueById,
+  searchVenues,
+  createVenue,
+  updateVenue,
+  deleteVenue,
+  isVenueInUse,
+  getVenueEvents,
+} from "../db/queries/venues";
+import { requireAuth } from "../middlewares/auth";
+import { canManage } from "../utils/permissions";
+
+const venues = new Hono();
+
+// Validation schemas
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+// Coordinates are only meaningful as a pair
+const hasPairedCoordinates = (data: {
+  latitude?: number | null;
+  longitude?: number | null;
+}) => (data.latitude === undefined) === (data.longitude === undefined);
+
+const coordinatesMessage = {
+  message: "latitude and longitude must be given together",
+};
+
+const createVenueSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    address: z.string().min(1).max(255),
+    latitude: latitudeSchema.optional(),
+    longitude: longitudeSchema.optional(),
+    capacity: z.number().int().min(1).optional(),
+    accessibility: z.string().max(2000).optional(),
+  })
+  .refine(hasPairedCoordinates, coordinatesMessage);
+
+const updateVenueSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    address: z.string().min(1).max(255).optional(),
+    latitude: latitudeSchema.nullable().optional(),
+    longitude: longitudeSchema.nullable().optional(),
+    capacity: z.number().int().min(1).nullable().optional(),
+    accessibility: z.string().max(2000).nullable().optional(),
+  })
+  .refine(hasPairedCoordinates, coordinatesMessage);
+
+const searchSchema = z.object({
+  q: z.string().min(1),
+  page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1).max(100))
+    .optional(),
+});
+
+const paginationSchema = z.object({
+  page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
+  limit: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(1).max(100))
+    .optional(),
+});
+
+const venueEventsSchema = paginationSchema.extend({
+  upcoming: z.enum(["true", "false"]).optional(),
+});
+
+// GET /venues - Get all venues with pagination
+venues.get("/", zValidator("query", paginationSchema), async (c) => {
+  try {
+    const query = c.req.valid("query");
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const result = await getAllVenues(page, limit);
+
+    return c.json({
+      success: true,
+      data: result.venues,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch venues" }, 500);
+  }
+});
+
+// GET /venues/search - Search venues by name or address
+venues.get("/search", zValidator("query", searchSchema), async (c) => {
+  try {
+    const query = c.req.valid("query");
+    const q = query.q;
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const results = await searchVenues(q, page, limit);
+
+    return c.json({
+      success: true,
+      data: results,
+      query: q,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to search venues" }, 500);
+  }
+});
+
+// GET /venues/:id - Get venue by ID
+venues.get("/:id", async (c) => {
+  try {
+    const venueId = c.req.param("id");
+    const venue = await getVenueById(venueId);
+
+    if (!venue) {
+      return c.json({ success: false, error: "Venue not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: venue,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to fetch venue" }, 500);
+  }
+});
+
+// GET /venues/:id/events - Get events held at venue
+venues.get("/:id/events", zValidator("query", venueEventsSchema), async (c) => {
+  try {
+    const venueId = c.req.param("id");
+    const query = c.req.valid("query");
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+
+    const venue = await getVenueById(venueId);
+    if (!venue) {
+      return c.json({ success: false, error: "Venue not found" }, 404);
+    }
+
+    const events = await getVenueEvents(
+      venueId,
+      page,
+      limit,
+      query.upcoming === "true"
+    );
+
+    return c.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    return c.json(
+      { success: false, error: "Failed to fetch venue events" },
+      500
+    );
+  }
+});
+
+// POST /venues - Create new venue
+venues.post(
+  "/",
+  requireAuth,
+  zValidator("json", createVenueSchema),
+  async (c) => {
+    try {
+      const venueData = c.req.valid("json");
+      const venue = await createVenue({
+        ...venueData,
+        createdBy: c.get("user").id,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: venue,
+        },
+        201
+      );
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to create venue" }, 500);
+    }
+  }
+);
+
+// PUT /venues/:id - Update venue
+venues.put(
+  "/:id",
+  requireAuth,
+  zValidator("json", updateVenueSchema),
+  async (c) => {
+    try {
+      const venueId = c.req.param("id");
+      const updateData = c.req.valid("json");
+
+      const existingVenue = await getVenueById(venueId);
+      if (!existingVenue) {
+        return c.json({ success: false, error: "Venue not found" }, 404);
+      }
+
+      // Only the creator or a moderator may edit the venue
+      if (!canManage(c.get("user"), existingVenue.createdBy)) {
+        return c.json({ success: false, error: "Forbidden" }, 403);
+      }
+
+      const updatedVenue = await updateVenue(venueId, updateData);
+
+      return c.json({
+        success: true,
+        data: updatedVenue,
+      });
+    } catch (error) {
+      return c.json({ success: false, error: "Failed to update venue" }, 500);
+    }
+  }
+);
+
+// DELETE /venues/:id - Delete venue
+venues.delete("/:id", requireAuth, async (c) => {
+  try {
+    const venueId = c.req.param("id");
+
+    const existingVenue = await getVenueById(venueId);
+    if (!existingVenue) {
+      return c.json({ success: false, error: "Venue not found" }, 404);
+    }
+
+    // Only the creator or a moderator may delete the venue
+    if (!canManage(c.get("user"), existingVenue.createdBy)) {
+      return c.json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    if (await isVenueInUse(venueId)) {
+      return c.json(
+        { success: false, error: "Venue still has events linked to it" },
+        409
+      );
+    }
+
+    const deletedVenue = await deleteVenue(venueId);
+
+    return c.json({
+      success: true,
+      data: deletedVenue,
+      message: "Venue deleted successfully",
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Failed to delete venue" }, 500);
+  }
+});
+
+export { venues };
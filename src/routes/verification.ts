@@ -14,12 +14,12 @@ import {
   getVerificationRequestsByStatus,
   hasPendingVerificationRequest
 } from '../db/queries/verification';
+import { requireAuth, requireRole } from '../middlewares/auth';
 
 const verification = new Hono();
 
 // Validation schemas
 const createVerificationRequestSchema = z.object({
-  userId: z.string().uuid(),
   documentUrl: z.string().url().max(500),
   notes: z.string().optional(),
 });
@@ -31,7 +31,6 @@ const updateVerificationRequestSchema = z.object({
 });
 
 const approveRejectSchema = z.object({
-  reviewerId: z.string().uuid(),
   notes: z.string().optional(),
 });
 
@@ -131,17 +130,18 @@ verification.get('/user/:userId', zValidator('query', paginationSchema), async (
 });
 
 // POST /verification - Create verification request
-verification.post('/', zValidator('json', createVerificationRequestSchema), async (c) => {
+verification.post('/', requireAuth, zValidator('json', createVerificationRequestSchema), async (c) => {
   try {
     const requestData = c.req.valid('json');
+    const userId = c.get('user').id;
     
     // Check if user already has a pending request
-    const hasPending = await hasPendingVerificationRequest(requestData.userId);
+    const hasPending = await hasPendingVerificationRequest(userId);
     if (hasPending) {
       return c.json({ success: false, error: 'User already has a pending verification request' }, 400);
     }
     
-    const request = await createVerificationRequest(requestData);
+    const request = await createVerificationRequest({ ...requestData, userId });
     
     return c.json({
       success: true,
@@ -153,7 +153,7 @@ verification.post('/', zValidator('json', createVerificationRequestSchema), asyn
 });
 
 // PUT /verification/:id - Update verification request
-verification.put('/:id', zValidator('json', updateVerificationRequestSchema), async (c) => {
+verification.put('/:id', requireAuth, requireRole('moderator', 'admin'), zValidator('json', updateVerificationRequestSchema), async (c) => {
   try {
     const requestId = c.req.param('id');
     const updateData = c.req.valid('json');
@@ -176,10 +176,11 @@ verification.put('/:id', zValidator('json', updateVerificationRequestSchema), as
 });
 
 // PUT /verification/:id/approve - Approve verification request
-verification.put('/:id/approve', zValidator('json', approveRejectSchema), async (c) => {
+verification.put('/:id/approve', requireAuth, requireRole('moderator', 'admin'), zValidator('json', approveRejectSchema), async (c) => {
   try {
     const requestId = c.req.param('id');
-    const { reviewerId, notes } = c.req.valid('json');
+    const { notes } = c.req.valid('json');
+    const reviewerId = c.get('user').id;
     
     const request = await approveVerificationRequest(requestId, reviewerId, notes);
     
@@ -194,10 +195,11 @@ verification.put('/:id/approve', zValidator('json', approveRejectSchema), async
 });
 
 // PUT /verification/:id/reject - Reject verification request
-verification.put('/:id/reject', zValidator('json', approveRejectSchema), async (c) => {
+verification.put('/:id/reject', requireAuth, requireRole('moderator', 'admin'), zValidator('json', approveRejectSchema), async (c) => {
   try {
     const requestId = c.req.param('id');
-    const { reviewerId, notes } = c.req.valid('json');
+    const { notes } = c.req.valid('json');
+    const reviewerId = c.get('user').id;
     
     const request = await rejectVerificationRequest(requestId, reviewerId, notes);
     
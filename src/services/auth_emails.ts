@@ -0,0 +1,74 @@
+import { createAuthToken, invalidateAuthTokens } from "../db/queries/auth";
+import { generateToken, hashToken } from "../utils/tokens";
+import { getMailer } from "./mailer";
+
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+// Get mailer, failing before any token is issued if none is configured
+const requireMailer = () => {
+  const mailer = getMailer();
+  if (!mailer) {
+    throw new Error("No mailer configured");
+  }
+
+  return mailer;
+};
+
+// Issue single-use email token, replacing any outstanding one
+const issueAuthToken = async (
+  userId: string,
+  purpose: "password_reset" | "email_verification",
+  ttlMs: number
+) => {
+  const token = generateToken();
+
+  await invalidateAuthTokens(userId, purpose);
+  await createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+
+  return token;
+};
+
+// Send email verification link
+export const sendVerificationEmail = async (user: {
+  id: string;
+  email: string;
+}) => {
+  const mailer = requireMailer();
+  const token = await issueAuthToken(
+    user.id,
+    "email_verification",
+    EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+  );
+
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your LocalEve email address",
+    text: `Confirm your email address by opening this link:\n${APP_URL}/verify-email?token=${token}\n\nThe link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+  });
+};
+
+// Send password reset link
+export const sendPasswordResetEmail = async (user: {
+  id: string;
+  email: string;
+}) => {
+  const mailer = requireMailer();
+  const token = await issueAuthToken(
+    user.id,
+    "password_reset",
+    PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  );
+
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your LocalEve password",
+    text: `Choose a new password by opening this link:\n${APP_URL}/reset-password?token=${token}\n\nThe link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, ignore this email.`,
+  });
+};
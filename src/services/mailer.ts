@@ -0,0 +1,64 @@
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import { logWarning } from "../utils/logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Print emails to stdout for local development
+export const createConsoleMailer = (): Mailer => ({
+  async send(message) {
+    console.log(
+      `📧 Mail to ${message.to}: ${message.subject}\n${message.text}\n`
+    );
+  },
+});
+
+// Append emails as JSON lines to a file so tests can read them back
+export const createFileMailer = (filePath: string): Mailer => ({
+  async send(message) {
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n"
+    );
+  },
+});
+
+// Development mailers only run when asked for; without a registered mailer
+// emails are not sent
+const createConfiguredMailer = (): Mailer | null => {
+  switch (process.env.MAILER) {
+    case "console":
+      return createConsoleMailer();
+    case "file":
+      return createFileMailer(
+        process.env.MAIL_OUTBOX || "tmp/mail-outbox.jsonl"
+      );
+    default:
+      return null;
+  }
+};
+
+let mailer = createConfiguredMailer();
+
+if (!mailer) {
+  logWarning(
+    "No mailer configured; set MAILER=console or MAILER=file to send emails"
+  );
+}
+
+// Get configured mailer, or null if none has been registered
+export const getMailer = () => mailer;
+
+// Replace mailer, e.g. with a real provider or a test double
+export const setMailer = (nextMailer: Mailer) => {
+  mailer = nextMailer;
+};
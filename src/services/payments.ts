@@ -0,0 +1,74 @@
+import { randomUUID } from "crypto";
+
+export interface PaymentRequest {
+  amountCents: number;
+  currency: string;
+  description: string;
+  // Provider-specific payment method, e.g. a card token from the client
+  paymentMethod?: string;
+}
+
+export interface PaymentResult {
+  status: "succeeded" | "failed";
+  paymentId: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+  refund(paymentId: string, amountCents: number): Promise<void>;
+}
+
+// Payment method the fake provider declines, for trying out failed payments
+export const FAKE_DECLINED_PAYMENT_METHOD = "fake_declined";
+
+// In-process provider for local development and tests, enabled with
+// PAYMENT_PROVIDER=fake; charges succeed unless the declined payment method
+// is used, and are kept in memory
+export const createFakePaymentProvider = (): PaymentProvider & {
+  payments: Map<string, PaymentRequest & { refundedCents: number }>;
+} => {
+  const payments = new Map<
+    string,
+    PaymentRequest & { refundedCents: number }
+  >();
+
+  return {
+    name: "fake",
+    payments,
+    async charge(request) {
+      const paymentId = `fake_${randomUUID()}`;
+      if (request.paymentMethod === FAKE_DECLINED_PAYMENT_METHOD) {
+        return { status: "failed", paymentId, failureReason: "Card declined" };
+      }
+
+      payments.set(paymentId, { ...request, refundedCents: 0 });
+      return { status: "succeeded", paymentId };
+    },
+    async refund(paymentId, amountCents) {
+      const payment = payments.get(paymentId);
+      if (!payment) {
+        throw new Error(`Unknown payment ${paymentId}`);
+      }
+      if (payment.refundedCents + amountCents > payment.amountCents) {
+        throw new Error("Refund exceeds the charged amount");
+      }
+
+      payment.refundedCents += amountCents;
+    },
+  };
+};
+
+// The fake only runs when asked for; without a registered provider paid
+// tickets cannot be sold
+let paymentProvider: PaymentProvider | null =
+  process.env.PAYMENT_PROVIDER === "fake" ? createFakePaymentProvider() : null;
+
+// Get configured payment provider, or null if none has been registered
+export const getPaymentProvider = () => paymentProvider;
+
+// Replace payment provider, e.g. with a real one or a test double
+export const setPaymentProvider = (nextProvider: PaymentProvider) => {
+  paymentProvider = nextProvider;
+};
@@ -0,0 +1,35 @@
+import {
+  claimOrderRefund,
+  releaseOrderRefund,
+  refundOrder,
+} from "../db/queries/tickets";
+import { getPaymentProvider } from "./payments";
+
+// Refund completed order in full. The order is claimed before the provider
+// is called and handed back if the money could not be returned, so it is
+// never paid out twice.
+export const refundTicketOrder = async (orderId: string) => {
+  const order = await claimOrderRefund(orderId);
+  if (!order) return { status: "not_refundable" as const };
+
+  if (order.paymentId && order.amountCents > 0) {
+    // Money goes back through the provider that took it
+    const provider = getPaymentProvider();
+    if (!provider || provider.name !== order.paymentProvider) {
+      await releaseOrderRefund(orderId);
+      return { status: "unavailable" as const };
+    }
+
+    try {
+      await provider.refund(order.paymentId, order.amountCents);
+    } catch (error) {
+      await releaseOrderRefund(orderId);
+      return { status: "provider_error" as const };
+    }
+  }
+
+  const refund = await refundOrder(orderId);
+  if (!refund) return { status: "not_refundable" as const };
+
+  return { status: "refunded" as const, ...refund };
+};
@@ -0,0 +1,27 @@
+import type { users } from "../db/schema";
+
+export type AuthUser = typeof users.$inferSelect;
+
+export const ROLES = ["user", "moderator", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const API_KEY_SCOPES = [
+  "events:read",
+  "events:write",
+  "groups:read",
+  "groups:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface AuthEnv {
+  Variables: {
+    user: AuthUser;
+    sessionId: string | undefined;
+    // Set when the request was authenticated with an API key
+    apiKeyId: string | undefined;
+    // Scope an API key needs for this route; unset routes reject API keys
+    apiKeyScope: ApiKeyScope | undefined;
+  };
+}
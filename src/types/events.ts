@@ -1,18 +1,80 @@
+export const RSVP_STATUSES = [
+  "going",
+  "maybe",
+  "not_going",
+  "invited",
+] as const;
+
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+export const EVENT_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "cancelled",
+] as const;
+
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+// Statuses an event may move to; scheduled events may be rescheduled
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ["scheduled", "published"],
+  scheduled: ["draft", "scheduled", "published"],
+  published: ["draft", "cancelled"],
+  cancelled: [],
+};
+
+export const EVENT_VISIBILITIES = ["public", "unlisted", "private"] as const;
+
+export type EventVisibility = (typeof EVENT_VISIBILITIES)[number];
+
+export const EVENT_ROLES = ["co_organizer", "moderator", "staff"] as const;
+
+export type EventRole = (typeof EVENT_ROLES)[number];
+
+export type EventPermission = "edit" | "manage_participants" | "check_in";
+
+// What each host role may do besides the organizer; status changes,
+// deletion, tickets and roles stay with the organizer
+export const EVENT_ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  co_organizer: ["edit", "manage_participants", "check_in"],
+  moderator: ["manage_participants", "check_in"],
+  staff: ["check_in"],
+};
+
 export interface CreateEventData {
   title: string;
   description: string;
   date: Date;
-  location: string;
+  endDate?: Date;
+  timeZone?: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  venueId?: string;
   organizerId: string;
+  groupId?: string;
   interests?: string[];
+  capacity?: number;
+  status?: EventStatus;
+  publishAt?: Date;
+  visibility?: EventVisibility;
 }
 
 export interface UpdateEventData {
   title?: string;
   description?: string;
   date?: Date;
+  endDate?: Date | null;
+  timeZone?: string;
   location?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  venueId?: string | null;
+  groupId?: string | null;
   interests?: string[];
+  capacity?: number | null;
+  visibility?: EventVisibility;
 }
 
 export interface Event {
@@ -20,10 +82,27 @@ export interface Event {
   title: string | null;
   description: string | null;
   date: Date;
+  endDate: Date | null;
+  timeZone: string;
+  localDate: string;
+  localEndDate: string | null;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  venueId: string | null;
   organizerId: string | null;
+  groupId: string | null;
   interests: string[] | null;
+  capacity: number | null;
+  seriesId: string | null;
+  occurrenceDate: Date | null;
+  status: EventStatus;
+  publishAt: Date | null;
+  cancelledAt: Date | null;
+  visibility: string;
+  sequence: number;
   createdAt: Date | null;
+  updatedAt: Date | null;
 }
 
 export interface EventWithOrganizer {
@@ -49,7 +128,9 @@ export interface EventParticipant {
     bio: string | null;
     createdAt: Date | null;
   };
+  status: RsvpStatus;
   joinedAt: Date | null;
+  respondedAt: Date | null;
 }
 
 export interface EventReview {
@@ -72,7 +153,22 @@ export interface EventReview {
   };
 }
 
+export interface EventHost {
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+    username: string | null;
+    bio: string | null;
+    createdAt: Date | null;
+  };
+  role: EventRole;
+  acceptedAt: Date | null;
+}
+
 export interface EventDetails extends EventWithOrganizer {
+  hosts: EventHost[];
   participants: EventParticipant[];
   reviews: EventReview[];
 }
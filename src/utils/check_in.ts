@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Marks the QR payload as a LocalEve check-in code, version 1
+const CHECK_IN_PREFIX = "LECI1";
+
+// Get signing key from environment
+const getSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  return secret;
+};
+
+// Purpose prefix keeps check-in signatures apart from other HMACs on the key
+const sign = (eventId: string, userId: string) =>
+  createHmac("sha256", getSecret())
+    .update(`check-in:${eventId}:${userId}`)
+    .digest("base64url");
+
+// Create check-in code for a participation; the string is the QR payload
+export const createCheckInCode = (eventId: string, userId: string) =>
+  [CHECK_IN_PREFIX, eventId, userId, sign(eventId, userId)].join(".");
+
+// Verify check-in code and return the participation it was issued for
+export const verifyCheckInCode = (code: string) => {
+  const [prefix, eventId, userId, signature, ...rest] = code.trim().split(".");
+  if (prefix !== CHECK_IN_PREFIX || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(eventId, userId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return { eventId, userId };
+};
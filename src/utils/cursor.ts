@@ -0,0 +1,25 @@
+// Position in a list ordered by creation time, ties broken by id
+export interface Cursor {
+  createdAt: Date;
+  id: string;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Encode position as an opaque string for the next page's cursor parameter
+export const encodeCursor = ({ createdAt, id }: Cursor) =>
+  Buffer.from(`${createdAt.toISOString()}|${id}`).toString("base64url");
+
+// Decode cursor from a request; returns null when it was tampered with
+export const decodeCursor = (cursor: string): Cursor | null => {
+  const [timestamp, id, ...rest] = Buffer.from(cursor, "base64url")
+    .toString("utf8")
+    .split("|");
+  const createdAt = new Date(timestamp);
+
+  if (rest.length > 0 || !id || !UUID_PATTERN.test(id)) return null;
+  if (Number.isNaN(createdAt.getTime())) return null;
+
+  return { createdAt, id };
+};
@@ -0,0 +1,229 @@
+import { parseCsv } from "./csv";
+import { parseCalendar, unescapeText, type IcalProperty } from "./ical";
+import { fromWallClock, isValidTimeZone } from "./timezone";
+
+export const IMPORT_FORMATS = ["csv", "ics"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const MAX_IMPORT_ROWS = 500;
+
+// CSV header (lowercased, without spaces, "_" and "-") to event field
+export const CSV_COLUMNS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  date: "date",
+  start: "date",
+  enddate: "endDate",
+  end: "endDate",
+  timezone: "timeZone",
+  location: "location",
+  latitude: "latitude",
+  longitude: "longitude",
+  venueid: "venueId",
+  groupid: "groupId",
+  interests: "interests",
+  capacity: "capacity",
+  visibility: "visibility",
+};
+
+const NUMERIC_FIELDS = ["latitude", "longitude", "capacity"];
+
+// Source row mapped to POST /events fields, before validation
+export interface ImportRow {
+  row: number;
+  uid?: string;
+  data: Record<string, unknown>;
+  // Problems found while reading the file; the row fails without validation
+  errors?: string[];
+  skipReason?: string;
+}
+
+// Numbers stay strings when unparseable so validation reports them
+const toFieldValue = (field: string, value: string) => {
+  if (field === "interests") {
+    return value
+      .split(";")
+      .map((interest) => interest.trim())
+      .filter(Boolean);
+  }
+  if (NUMERIC_FIELDS.includes(field) && !isNaN(Number(value))) {
+    return Number(value);
+  }
+
+  return value;
+};
+
+// Read CSV file with a header row; row numbers count the header as row 1
+export const parseCsvEvents = (text: string): ImportRow[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+
+  const fields = header.map(
+    (column) => CSV_COLUMNS[column.toLowerCase().replace(/[\s_-]/g, "")]
+  );
+
+  const rows: ImportRow[] = [];
+  records.forEach((record, index) => {
+    if (record.every((value) => !value.trim())) return;
+
+    const data: Record<string, unknown> = {};
+    record.forEach((value, column) => {
+      const field = fields[column];
+      if (field && value.trim()) {
+        data[field] = toFieldValue(field, value.trim());
+      }
+    });
+
+    rows.push({ row: index + 2, data });
+  });
+
+  return rows;
+};
+
+const ICAL_DATE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const ICAL_DURATION =
+  /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Instant of a DATE or DATE-TIME value; times without "Z" are wall-clock
+// times in the given zone
+const parseIcalDate = (value: string, timeZone: string) => {
+  const match = ICAL_DATE.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0", utc] =
+    match;
+  const wallClock = new Date(
+    Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+  );
+
+  return utc ? wallClock : fromWallClock(wallClock, timeZone);
+};
+
+// Length of a positive DURATION value in milliseconds
+const parseIcalDuration = (value: string) => {
+  const match = ICAL_DURATION.exec(value.trim());
+  if (!match || value.trim() === "P" || value.trim().endsWith("T")) {
+    return null;
+  }
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(
+    (part) => Number(part) || 0
+  );
+
+  return (
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000
+  );
+};
+
+// Read VEVENTs of an iCalendar file; row numbers count events from 1
+export const parseIcalEvents = (text: string): ImportRow[] => {
+  const { calendar, events } = parseCalendar(text);
+
+  // Apple and Google name the calendar's zone for floating times here
+  const calendarTimeZone = calendar["X-WR-TIMEZONE"]?.value;
+  const defaultTimeZone =
+    calendarTimeZone && isValidTimeZone(calendarTimeZone)
+      ? calendarTimeZone
+      : "UTC";
+
+  return events.map((event, index) => {
+    const row: ImportRow = {
+      row: index + 1,
+      uid: event.UID?.value,
+      data: {},
+    };
+    const errors: string[] = [];
+    const text = (name: string) =>
+      event[name] ? unescapeText(event[name].value).trim() : undefined;
+
+    if (event.STATUS?.value.toUpperCase() === "CANCELLED") {
+      return { ...row, skipReason: "Event is cancelled" };
+    }
+    if (event.RRULE) {
+      errors.push(
+        "RRULE: recurring events are not supported, create them as a series"
+      );
+    }
+
+    const zoneOf = (property: IcalProperty) => {
+      const tzid = property.params.TZID;
+      if (tzid && !isValidTimeZone(tzid)) {
+        errors.push(`TZID: unknown time zone "${tzid}"`);
+        return null;
+      }
+      return tzid || defaultTimeZone;
+    };
+
+    let start: Date | null = null;
+    let end: Date | null = null;
+    let timeZone: string | null = null;
+
+    if (!event.DTSTART) {
+      errors.push("DTSTART: missing start time");
+    } else {
+      timeZone = zoneOf(event.DTSTART);
+      start = timeZone ? parseIcalDate(event.DTSTART.value, timeZone) : null;
+      if (timeZone && !start) errors.push("DTSTART: invalid date");
+    }
+
+    if (start && event.DTEND) {
+      const endZone = zoneOf(event.DTEND);
+      end = endZone ? parseIcalDate(event.DTEND.value, endZone) : null;
+      if (endZone && !end) errors.push("DTEND: invalid date");
+    } else if (start && event.DURATION) {
+      const duration = parseIcalDuration(event.DURATION.value);
+      if (duration === null) errors.push("DURATION: invalid duration");
+      else end = new Date(start.getTime() + duration);
+    } else if (start && !event.DTSTART.value.includes("T")) {
+      // All-day events without an end last one day
+      end = new Date(start.getTime() + DAY_MS);
+    }
+
+    let latitude: number | undefined;
+    let longitude: number | undefined;
+    if (event.GEO) {
+      [latitude, longitude] = event.GEO.value.split(";").map(Number);
+    }
+
+    const interests = event.CATEGORIES?.value
+      .match(/(?:\\.|[^,])+/g)
+      ?.map((interest) => unescapeText(interest).trim())
+      .filter(Boolean);
+
+    const data: Record<string, unknown> = {
+      title: text("SUMMARY"),
+      description: text("DESCRIPTION"),
+      date: start?.toISOString(),
+      endDate: end?.toISOString(),
+      timeZone: timeZone ?? undefined,
+      location: text("LOCATION"),
+      latitude,
+      longitude,
+      interests,
+    };
+
+    // Leave out absent values like a CSV row with empty cells
+    Object.keys(data).forEach((field) => {
+      if (data[field] === undefined || data[field] === "") delete data[field];
+    });
+
+    return errors.length > 0 ? { ...row, data, errors } : { ...row, data };
+  });
+};
+
+// Parse import file in the given format
+export const parseImportFile = (format: ImportFormat, text: string) =>
+  format === "csv" ? parseCsvEvents(text) : parseIcalEvents(text);
+
+// Guess format from the upload's file name or content type
+export const detectImportFormat = (
+  fileName: string,
+  contentType: string
+): ImportFormat | null => {
+  const hint = `${fileName} ${contentType}`.toLowerCase();
+  if (/\.ics\b|text\/calendar/.test(hint)) return "ics";
+  if (/\.csv\b|text\/csv/.test(hint)) return "csv";
+
+  return null;
+};
@@ -0,0 +1,47 @@
+export const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_DEGREE_LATITUDE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Smallest latitude/longitude box containing the circle around a point.
+// West is greater than east when the box crosses the antimeridian.
+export const getBoundingBox = (
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+): BoundingBox => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const south = Math.max(latitude - latDelta, -90);
+  const north = Math.min(latitude + latDelta, 90);
+
+  // Near the poles the circle covers every longitude
+  if (south === -90 || north === 90) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  // Widest longitude span of the circle, reached poleward of the centre's
+  // parallel; dividing the latitude delta by cos(latitude) falls short of it
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const sinLngDelta =
+    Math.sin(angularRadius) / Math.cos((latitude * Math.PI) / 180);
+  if (angularRadius >= Math.PI / 2 || sinLngDelta >= 1) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  const lngDelta = (Math.asin(sinLngDelta) * 180) / Math.PI;
+
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+  return {
+    south,
+    west: wrap(longitude - lngDelta),
+    north,
+    east: wrap(longitude + lngDelta),
+  };
+};
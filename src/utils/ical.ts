@@ -0,0 +1,231 @@
+// iCalendar (RFC 5545) serialization for event downloads and feeds
+
+export const ICAL_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+// Most recent events included in a subscribable feed
+export const MAX_FEED_EVENTS = 500;
+
+const PRODUCT_ID = "-//LocalEve//LocalEve API//EN";
+const UID_DOMAIN = "localeve";
+const MAX_LINE_OCTETS = 75;
+
+export interface IcalEvent {
+  id: string;
+  title: string | null;
+  description: string | null;
+  date: Date;
+  endDate: Date | null;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  interests: string[] | null;
+  sequence: number;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  status?: string;
+  // Shown as tentative, e.g. for a "maybe" RSVP in a personal feed
+  tentative?: boolean;
+}
+
+// Cancelled events stay in feeds so clients mark them instead of keeping them
+const getIcalStatus = (event: IcalEvent) => {
+  if (event.status === "cancelled") return "CANCELLED";
+
+  return event.tentative ? "TENTATIVE" : "CONFIRMED";
+};
+
+// Escape TEXT value (RFC 5545 section 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+// Format instant as UTC DATE-TIME, e.g. 20250101T180000Z
+const formatDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// Split content line into 75-octet lines without breaking UTF-8 characters
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  Array.from(line).forEach((char) => {
+    const size = Buffer.byteLength(char, "utf8");
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      // Continuation lines start with a space, which counts towards the limit
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  });
+  lines.push(current);
+
+  return lines.join("\r\n");
+};
+
+// UID stays the same across updates so clients replace the old copy
+export const getEventUid = (eventId: string) => `${eventId}@${UID_DOMAIN}`;
+
+const buildEvent = (event: IcalEvent, generatedAt: Date) => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${getEventUid(event.id)}`,
+    `DTSTAMP:${formatDateTime(generatedAt)}`,
+    `DTSTART:${formatDateTime(event.date)}`,
+  ];
+
+  if (event.endDate) lines.push(`DTEND:${formatDateTime(event.endDate)}`);
+  lines.push(`SUMMARY:${escapeText(event.title || "Untitled event")}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.latitude !== null && event.longitude !== null) {
+    lines.push(`GEO:${event.latitude};${event.longitude}`);
+  }
+  if (event.interests && event.interests.length > 0) {
+    lines.push(`CATEGORIES:${event.interests.map(escapeText).join(",")}`);
+  }
+  lines.push(`STATUS:${getIcalStatus(event)}`);
+  lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.createdAt) lines.push(`CREATED:${formatDateTime(event.createdAt)}`);
+  if (event.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.updatedAt)}`);
+  }
+  lines.push("END:VEVENT");
+
+  return lines;
+};
+
+// Build VCALENDAR object; every content line ends with CRLF
+export const buildCalendar = (name: string, events: IcalEvent[]) => {
+  const generatedAt = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `NAME:${escapeText(name)}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for subscribed clients on how often to poll (RFC 7986)
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  events.forEach((event) => {
+    lines.push(...buildEvent(event, generatedAt));
+  });
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export interface IcalProperty {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Undo TEXT escaping (RFC 5545 section 3.3.11)
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// Split content line into name, parameters and value; colons and
+// semicolons inside quoted parameter values do not count as separators
+const parseContentLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === ";" || char === ":")) {
+      parts.push(current);
+      current = "";
+      if (char === ":") {
+        valueStart = i + 1;
+        break;
+      }
+    } else {
+      current += char;
+    }
+  }
+
+  if (valueStart === -1) return null;
+
+  const [name, ...paramParts] = parts;
+  const params: Record<string, string> = {};
+  paramParts.forEach((param) => {
+    const separator = param.indexOf("=");
+    if (separator === -1) return;
+    params[param.slice(0, separator).toUpperCase()] = param
+      .slice(separator + 1)
+      .replace(/^"|"$/g, "");
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(valueStart),
+  };
+};
+
+// Parse iCalendar object into calendar-level properties and VEVENTs.
+// Only the first occurrence of a property is kept and nested components
+// such as VALARM are skipped.
+export const parseCalendar = (text: string) => {
+  const calendar: Record<string, IcalProperty> = {};
+  const events: Record<string, IcalProperty>[] = [];
+  const components: string[] = [];
+  let currentEvent: Record<string, IcalProperty> | null = null;
+
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  lines.forEach((line) => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      components.push(property.value.toUpperCase());
+      if (components.length === 2 && components[1] === "VEVENT") {
+        currentEvent = {};
+        events.push(currentEvent);
+      }
+      return;
+    }
+
+    if (property.name === "END") {
+      components.pop();
+      if (components.length < 2) currentEvent = null;
+      return;
+    }
+
+    const target =
+      components.length === 1
+        ? calendar
+        : components.length === 2
+          ? currentEvent
+          : null;
+    if (target && !(property.name in target)) {
+      target[property.name] = {
+        value: property.value,
+        params: property.params,
+      };
+    }
+  });
+
+  return { calendar, events };
+};
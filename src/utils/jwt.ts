@@ -0,0 +1,79 @@
+import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+
+const ACCESS_TOKEN_TTL = process.env.JWT_EXPIRES_IN || "15m";
+const TWO_FACTOR_CHALLENGE_TTL = "5m";
+
+export type AccessTokenPayload = JWTPayload & { sub: string; sid?: string };
+
+// Get signing key from environment
+const getSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  return new TextEncoder().encode(secret);
+};
+
+// Sign access token for user, bound to a session family when given
+export const signAccessToken = async (userId: string, sessionId?: string) => {
+  return new SignJWT(sessionId ? { sid: sessionId } : {})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(ACCESS_TOKEN_TTL)
+    .sign(getSecret());
+};
+
+// Verify access token and return its payload
+export const verifyAccessToken = async (
+  token: string
+): Promise<AccessTokenPayload> => {
+  const { payload } = await jwtVerify(token, getSecret(), {
+    algorithms: ["HS256"],
+  });
+
+  if (!payload.sub) {
+    throw new Error("Token has no subject");
+  }
+
+  // Purpose-bound tokens (e.g. 2FA challenges) are not access tokens
+  if (payload.purpose) {
+    throw new Error("Token is not an access token");
+  }
+
+  return payload as AccessTokenPayload;
+};
+
+// Sign short-lived token proving the password step of a 2FA login passed
+export const signTwoFactorChallenge = async (userId: string) => {
+  return new SignJWT({ purpose: "2fa_challenge" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(TWO_FACTOR_CHALLENGE_TTL)
+    .sign(getSecret());
+};
+
+// Verify 2FA challenge token and return the user id it was issued for
+export const verifyTwoFactorChallenge = async (token: string) => {
+  const { payload } = await jwtVerify(token, getSecret(), {
+    algorithms: ["HS256"],
+  });
+
+  if (payload.purpose !== "2fa_challenge" || !payload.sub) {
+    throw new Error("Token is not a 2FA challenge");
+  }
+
+  return payload.sub;
+};
+
+// Extract bearer token from Authorization header
+export const getBearerToken = (header: string | undefined) => {
+  if (!header) return null;
+
+  const [scheme, token] = header.split(" ");
+  if (scheme !== "Bearer" || !token) return null;
+
+  return token;
+};
@@ -0,0 +1,12 @@
+// Single place for server-side log output, so it can be routed elsewhere
+// without touching every caller
+
+// Log failure that is handled but should not go unnoticed
+export const logError = (message: string, error?: unknown) => {
+  console.error(message, error);
+};
+
+// Log configuration problems and other conditions worth a look
+export const logWarning = (message: string) => {
+  console.warn(message);
+};
@@ -0,0 +1,20 @@
+// Most users a single comment may notify
+export const MAX_MENTIONS = 20;
+
+// "@name" at the start or after a non-word character, so emails don't count
+const MENTION_PATTERN = /(^|[^\w@])@([\w.-]{3,50})/g;
+
+// Extract mentioned usernames without duplicates
+export const parseMentions = (text: string) => {
+  const usernames: string[] = [];
+
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    // Trailing dots end the sentence rather than the username
+    const username = match[2].replace(/\.+$/, "");
+    if (username.length >= 3 && !usernames.includes(username)) {
+      usernames.push(username);
+    }
+  }
+
+  return usernames.slice(0, MAX_MENTIONS);
+};
@@ -0,0 +1,13 @@
+import * as bcrypt from "bcrypt";
+
+const SALT_ROUNDS = 12;
+
+// Hash plain text password
+export const hashPassword = async (password: string) => {
+  return bcrypt.hash(password, SALT_ROUNDS);
+};
+
+// Compare plain text password against stored hash
+export const verifyPassword = async (password: string, hash: string) => {
+  return bcrypt.compare(password, hash);
+};
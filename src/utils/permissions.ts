@@ -0,0 +1,22 @@
+import type { AuthUser, Role } from "../types/auth";
+
+// Admin privileges only apply once two-factor authentication is enabled
+export const getEffectiveRole = (user: AuthUser): Role => {
+  if (user.role === "admin" && !user.twoFactorEnabledAt) return "user";
+
+  return user.role as Role;
+};
+
+// Check if user holds one of the given roles
+export const hasRole = (user: AuthUser, ...roles: Role[]) => {
+  return roles.includes(getEffectiveRole(user));
+};
+
+// Owners may manage their own resources; the given roles may manage any
+export const canManage = (
+  user: AuthUser,
+  ownerId: string | null,
+  overrideRoles: Role[] = ["moderator", "admin"]
+) => {
+  return user.id === ownerId || hasRole(user, ...overrideRoles);
+};
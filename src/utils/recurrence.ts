@@ -0,0 +1,92 @@
+import { fromWallClock, toWallClock } from "./timezone";
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+// Upper bound on occurrences generated for one series
+export const MAX_SERIES_OCCURRENCES = 200;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // 0 (Sunday) to 6 (Saturday), weekly rules only
+  byWeekday?: number[] | null;
+  startsAt: Date;
+  until?: Date | null;
+  count?: number | null;
+  exceptions?: Date[] | null;
+  // IANA zone whose wall-clock time stays fixed across DST, default UTC
+  timeZone?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Candidate wall-clock start times generated by the rule for one period
+const getPeriodDates = (rule: RecurrenceRule, start: Date, period: number) => {
+  const step = period * rule.interval;
+
+  if (rule.frequency === "daily") {
+    return [new Date(start.getTime() + step * DAY_MS)];
+  }
+
+  if (rule.frequency === "weekly") {
+    const weekdays =
+      rule.byWeekday && rule.byWeekday.length > 0
+        ? Array.from(new Set(rule.byWeekday)).sort((a, b) => a - b)
+        : [start.getUTCDay()];
+    const weekStart = start.getTime() - start.getUTCDay() * DAY_MS;
+
+    return weekdays
+      .map((weekday) => new Date(weekStart + (step * 7 + weekday) * DAY_MS))
+      .filter((date) => date >= start);
+  }
+
+  // Monthly on the same day; months without that day are skipped
+  const date = new Date(
+    Date.UTC(
+      start.getUTCFullYear(),
+      start.getUTCMonth() + step,
+      start.getUTCDate(),
+      start.getUTCHours(),
+      start.getUTCMinutes(),
+      start.getUTCSeconds()
+    )
+  );
+
+  return date.getUTCDate() === start.getUTCDate() ? [date] : [];
+};
+
+// Expand rule into occurrence start times, RRULE style: COUNT and UNTIL
+// bound the generated set and exceptions (EXDATE) are removed afterwards.
+// Stops after `limit` generated dates so callers can detect oversized series.
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  limit: number = MAX_SERIES_OCCURRENCES + 1
+) => {
+  const exceptions = new Set(
+    (rule.exceptions || []).map((date) => date.getTime())
+  );
+  const generated: Date[] = [];
+  const max = Math.min(rule.count || limit, limit);
+  const timeZone = rule.timeZone || "UTC";
+  const localStart = toWallClock(rule.startsAt, timeZone);
+
+  // Skipped months can yield empty periods; bound the walk regardless
+  for (let period = 0; period < max * 12; period++) {
+    for (const local of getPeriodDates(rule, localStart, period)) {
+      const date = fromWallClock(local, timeZone);
+
+      if (rule.until && date > rule.until) {
+        return generated.filter((d) => !exceptions.has(d.getTime()));
+      }
+
+      generated.push(date);
+      if (generated.length >= max) {
+        return generated.filter((d) => !exceptions.has(d.getTime()));
+      }
+    }
+  }
+
+  return generated.filter((d) => !exceptions.has(d.getTime()));
+};
@@ -0,0 +1,51 @@
+// Check IANA time zone name, e.g. "Europe/Berlin"
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Wall-clock time in the zone, returned as a Date whose UTC fields hold it
+export const toWallClock = (date: Date, timeZone: string) => {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+};
+
+// Instant for a wall-clock time (UTC fields of `wallClock`) in the zone.
+// Times skipped by a DST jump move forward; repeated times use the second.
+export const fromWallClock = (wallClock: Date, timeZone: string) => {
+  const guess = wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+
+  return new Date(wallClock.getTime() - offset);
+};
@@ -0,0 +1,19 @@
+import { randomBytes, createHash } from "crypto";
+
+// Prefix that tells API keys apart from access tokens
+export const API_KEY_PREFIX = "le_";
+
+// Generate opaque random token for use in URLs and headers
+export const generateToken = (bytes: number = 32) => {
+  return randomBytes(bytes).toString("base64url");
+};
+
+// Hash opaque token for storage; tokens are high-entropy so no salt is needed
+export const hashToken = (token: string) => {
+  return createHash("sha256").update(token).digest("hex");
+};
+
+// Generate personal API key
+export const generateApiKey = () => {
+  return `${API_KEY_PREFIX}${generateToken()}`;
+};
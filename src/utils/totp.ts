@@ -0,0 +1,118 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+// Encode bytes as unpadded RFC 4648 base32
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+// Decode RFC 4648 base32, ignoring padding and case
+const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/=+$/, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// Compute RFC 4226 HOTP value for counter
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+};
+
+// Generate new 160-bit TOTP secret in base32
+export const generateTotpSecret = () => {
+  return base32Encode(randomBytes(20));
+};
+
+// Build otpauth:// URI for authenticator apps
+export const getTotpUri = (
+  secret: string,
+  accountName: string,
+  issuer: string = "LocalEve"
+) => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Verify TOTP code allowing one step of clock drift.
+// Returns the matched time step so callers can reject replays.
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  now: number = Date.now()
+) => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now / 1000 / PERIOD_SECONDS);
+
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    const expected = hotp(key, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// Generate one-time recovery code formatted as xxxx-xxxx-xxxx
+export const generateRecoveryCode = () => {
+  const raw = randomBytes(6).toString("hex");
+
+  return `${raw.slice(0, 4)}-${raw.slice(4, 8)}-${raw.slice(8, 12)}`;
+};
+
+// Normalize recovery code input before hashing
+export const normalizeRecoveryCode = (code: string) => {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, "");
+};